@@ -0,0 +1,175 @@
+// Month grid of the journal calendar (see src/ext/calendar.ts). The extension sends the days of the month,
+// the script renders them and reports the selected day, the navigation between months and the scope.
+
+(function () {
+    const vscode = acquireVsCodeApi();
+
+    const table = document.getElementById("calendar");
+    const title = document.getElementById("title");
+    const scopes = document.getElementById("scope");
+
+    // the day to focus after the next update ("YYYY-MM-DD"), kept when moving into another month
+    let focused = (vscode.getState() || {}).focused;
+
+    function post(message) {
+        vscode.postMessage(message);
+    }
+
+    function addDays(date, days) {
+        const [year, month, day] = date.split("-").map(Number);
+        const result = new Date(year, month - 1, day + days);
+        return [
+            result.getFullYear(),
+            String(result.getMonth() + 1).padStart(2, "0"),
+            String(result.getDate()).padStart(2, "0")
+        ].join("-");
+    }
+
+    function focus(date) {
+        const cell = table.querySelector(`[data-date="${date}"]`);
+        if (cell === null || cell.classList.contains("outside")) return false;
+
+        table.querySelectorAll("[tabindex='0']").forEach(other => {
+            other.setAttribute("tabindex", "-1");
+            other.classList.remove("selected");
+        });
+        cell.setAttribute("tabindex", "0");
+        cell.classList.add("selected");
+        if (document.hasFocus()) cell.focus();
+        focused = date;
+        vscode.setState({ focused: focused });
+        return true;
+    }
+
+    function move(days) {
+        const target = addDays(focused, days);
+        if (!focus(target)) {
+            // the day is in the previous or next month
+            focused = target;
+            vscode.setState({ focused: focused });
+            post({ command: "navigate", offset: days < 0 ? -1 : 1 });
+        }
+    }
+
+    function describe(day) {
+        const parts = [day.date];
+        if (day.today) parts.push("today");
+        parts.push(day.entry ? "entry" : "no entry");
+        if (day.notes > 0) parts.push(day.notes + (day.notes === 1 ? " note" : " notes"));
+        if (day.tasks > 0) parts.push(day.tasks + (day.tasks === 1 ? " open task" : " open tasks"));
+        return parts.join(", ");
+    }
+
+    function render(message) {
+        title.textContent = message.title;
+
+        scopes.innerHTML = "";
+        message.scopes.forEach(scope => {
+            const option = document.createElement("option");
+            option.value = scope;
+            option.textContent = scope;
+            option.selected = scope === message.scope;
+            scopes.appendChild(option);
+        });
+
+        table.innerHTML = "";
+        const header = table.insertRow();
+        message.weekdays.forEach(weekday => {
+            const cell = document.createElement("th");
+            cell.textContent = weekday;
+            header.appendChild(cell);
+        });
+
+        const days = [].concat(...message.weeks).filter(day => day.inMonth);
+        message.weeks.forEach(week => {
+            const row = table.insertRow();
+            week.forEach(day => {
+                const cell = row.insertCell();
+                cell.dataset.date = day.date;
+                cell.setAttribute("role", "gridcell");
+                cell.setAttribute("tabindex", "-1");
+                cell.setAttribute("aria-label", describe(day));
+                cell.title = describe(day);
+                cell.classList.toggle("outside", !day.inMonth);
+                cell.classList.toggle("today", day.today);
+                cell.classList.toggle("entry", day.entry);
+
+                const number = document.createElement("span");
+                number.className = "day";
+                number.textContent = day.day;
+                cell.appendChild(number);
+
+                const counters = document.createElement("span");
+                counters.className = "counters";
+                if (day.notes > 0) counters.appendChild(counter("notes", day.notes));
+                if (day.tasks > 0) counters.appendChild(counter("tasks", day.tasks));
+                cell.appendChild(counters);
+            });
+        });
+
+        // keep the selected day, otherwise select today or the first day of the month
+        const selected = days.find(day => day.date === focused) || days.find(day => day.today) || days[0];
+        focus(selected.date);
+    }
+
+    function counter(type, count) {
+        const element = document.createElement("span");
+        element.className = type;
+        element.textContent = (type === "notes" ? "✎" : "☐") + count;
+        return element;
+    }
+
+    table.addEventListener("click", event => {
+        const cell = event.target.closest("td");
+        if (cell === null || cell.classList.contains("outside")) return;
+        focus(cell.dataset.date);
+        post({ command: "open", date: cell.dataset.date });
+    });
+
+    table.addEventListener("keydown", event => {
+        if (focused === undefined) return;
+        switch (event.key) {
+            case "ArrowLeft": move(-1); break;
+            case "ArrowRight": move(1); break;
+            case "ArrowUp": move(-7); break;
+            case "ArrowDown": move(7); break;
+            case "Enter":
+            case " ":
+                post({ command: "open", date: focused });
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+    });
+
+    document.addEventListener("keydown", event => {
+        if (event.target === scopes) return;
+        switch (event.key) {
+            case "PageUp": post({ command: "navigate", offset: -1 }); break;
+            case "PageDown": post({ command: "navigate", offset: 1 }); break;
+            case "t":
+            case "T":
+                focused = undefined;
+                post({ command: "today" });
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+    });
+
+    document.getElementById("previous").addEventListener("click", () => post({ command: "navigate", offset: -1 }));
+    document.getElementById("next").addEventListener("click", () => post({ command: "navigate", offset: 1 }));
+    document.getElementById("today").addEventListener("click", () => {
+        focused = undefined;
+        post({ command: "today" });
+    });
+    scopes.addEventListener("change", () => post({ command: "scope", scope: scopes.value }));
+
+    window.addEventListener("message", event => {
+        if (event.data.command === "update") render(event.data);
+    });
+
+    post({ command: "ready" });
+}());
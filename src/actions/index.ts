@@ -22,3 +22,4 @@ export { Parser } from './parser';
 export { Writer } from './writer';
 export { Reader } from './reader';
 export { Inject } from './inject';
+export { Indexer } from './indexer';
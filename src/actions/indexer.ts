@@ -0,0 +1,409 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import * as fs from 'fs';
+import * as Path from 'path';
+import * as Q from 'q';
+import * as vscode from 'vscode';
+import * as J from '../';
+import { isNullOrUndefined } from 'util';
+import { JournalPageType, SCOPE_DEFAULT } from '../ext/conf';
+import { FileEntry, BaseDirectory } from './reader';
+
+interface StoredIndex {
+    version: number;
+    entries: FileEntry[];
+}
+
+const INDEX_FILE: string = "index.json";
+const INDEX_VERSION: number = 1;
+
+// changes are written to the storage after this delay (in ms)
+const SAVE_DELAY: number = 2000;
+
+const LINK_EXPRESSION: RegExp = /\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+
+/** 
+ * Index of all files in the base directories of the journal (entries, notes and attachements). The index 
+ * is persisted in the storage of the extension and kept current by file system watchers, a full scan of 
+ * the directories is only needed to catch changes made while vscode was closed (and runs in the background). 
+ */
+export class Indexer implements vscode.Disposable {
+
+    private entries: Map<string, FileEntry> = new Map();
+    private loading: Q.Promise<void> = Q.resolve<void>(undefined);
+    private storageFile: string | undefined;
+    private saveTimer: NodeJS.Timer | undefined;
+    private watchers: vscode.Disposable[] = [];
+
+    private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    /** fired whenever files have been added, updated or removed */
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    constructor(public ctrl: J.Util.Ctrl) {
+    }
+
+    /**
+     * Loads the index from the storage and scans the base directories for changes. If there is no stored 
+     * index yet, the index is ready after the scan. 
+     *
+     * @param {string} [storagePath] the directory for the index (the global storage of the extension)
+     * @returns {Q.Promise<void>} resolved as soon as the index can be queried
+     * @memberof Indexer
+     */
+    public initialize(storagePath?: string): Q.Promise<void> {
+        this.ctrl.logger.trace("Entering initialize() in actions/indexer.ts");
+
+        this.storageFile = isNullOrUndefined(storagePath) ? undefined : Path.join(storagePath!, INDEX_FILE);
+
+        this.loading = this.load().then((loaded: boolean) => {
+            let scan: Q.Promise<void> = this.scan();
+            if (!loaded) return scan;
+
+            scan.catch(error => this.ctrl.logger.error("Failed to scan the journal for changes.", error)).done();
+        });
+        return this.loading;
+    }
+
+    /**
+     * Resolved as soon as the index can be queried
+     */
+    public ready(): Q.Promise<void> {
+        return this.loading;
+    }
+
+    /**
+     * Drops the index and scans all base directories again
+     */
+    public rebuild(): Q.Promise<void> {
+        this.ctrl.logger.trace("Entering rebuild() in actions/indexer.ts");
+
+        this.entries.clear();
+        this.loading = this.scan();
+        return this.loading;
+    }
+
+    /**
+     * Watches the base directories of all scopes for changes and scans them again, e.g. after the base paths 
+     * in the settings have been changed (files of directories which are not part of the journal anymore are removed)
+     *
+     * @returns {Q.Promise<void>} resolved after the scan
+     * @memberof Indexer
+     */
+    public reload(): Q.Promise<void> {
+        this.ctrl.logger.trace("Entering reload() in actions/indexer.ts");
+
+        this.watch();
+        this.loading = this.loading.then(() => this.scan(), () => this.scan());
+        return this.loading;
+    }
+
+    /**
+     * Watches the base directories of all scopes for changes (the watchers of the previous base directories are disposed)
+     */
+    public watch(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+
+        let paths: string[] = [];
+        this.ctrl.ui.getBaseDirectories().forEach(directory => {
+            if (paths.indexOf(directory.path) < 0) paths.push(directory.path);
+        });
+
+        this.watchers = paths.map(path => {
+            let watcher: vscode.FileSystemWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(path, "**/*"));
+            let update = (uri: vscode.Uri) => this.update(uri.fsPath)
+                .catch(error => this.ctrl.logger.error("Failed to update the index for ", uri.fsPath, error))
+                .done();
+
+            watcher.onDidCreate(update);
+            watcher.onDidChange(update);
+            watcher.onDidDelete(uri => this.remove(uri.fsPath));
+            return watcher;
+        });
+    }
+
+    /**
+     * Returns the indexed files (the index has to be ready)
+     *
+     * @param {string} [directory] only files within this directory (e.g. the base directory of a scope)
+     * @returns {FileEntry[]} the files
+     * @memberof Indexer
+     */
+    public getEntries(directory?: string): FileEntry[] {
+        let entries: FileEntry[] = Array.from(this.entries.values());
+        return isNullOrUndefined(directory) ? entries : entries.filter(entry => this.isWithin(directory!, entry.path));
+    }
+
+    /**
+     * Returns all tags of the journal pages with the pages using them (the index has to be ready)
+     *
+     * @returns {Map<string, FileEntry[]>} the tags (sorted by name, without "#") with their pages
+     * @memberof Indexer
+     */
+    public getTags(): Map<string, FileEntry[]> {
+        let tags: Map<string, FileEntry[]> = new Map();
+        this.getEntries()
+            .forEach(entry => entry.tags.forEach(tag => {
+                if (!tags.has(tag)) tags.set(tag, []);
+                tags.get(tag)!.push(entry);
+            }));
+
+        return new Map(Array.from(tags.entries()).sort(([a], [b]) => a.localeCompare(b)));
+    }
+
+    /**
+     * Returns the indexed file with the given path, or undefined
+     */
+    public getEntry(path: string): FileEntry | undefined {
+        return this.entries.get(path);
+    }
+
+    /**
+     * Adds or updates the file (or all files within the directory) with the given path
+     *
+     * @param {string} path the path of the changed file or directory
+     * @returns {Q.Promise<void>}
+     * @memberof Indexer
+     */
+    public update(path: string): Q.Promise<void> {
+        // like the scan, we skip hidden files and directories (e.g. the templates in "${base}/.templates")
+        if (this.isHidden(path)) return Q.resolve<void>(undefined);
+
+        return Q.nfcall<fs.Stats>(fs.stat, path)
+            .then((stats: fs.Stats) => stats.isDirectory() ? this.walk(path) : this.visit(path, stats).then(() => { }))
+            .then(() => this.changed());
+    }
+
+    /**
+     * Removes the file (or all files within the directory) with the given path
+     */
+    public remove(path: string): void {
+        let removed: boolean = this.entries.delete(path);
+        this.getEntries(path).forEach(entry => removed = this.entries.delete(entry.path) || removed);
+
+        if (removed) this.changed();
+    }
+
+    public dispose(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        if (this.saveTimer !== undefined) {
+            clearTimeout(this.saveTimer);
+            this.save();
+        }
+        this._onDidChange.dispose();
+    }
+
+    /**
+     * Reads the stored index
+     * 
+     * @returns true if the index has been loaded
+     */
+    private load(): Q.Promise<boolean> {
+        if (isNullOrUndefined(this.storageFile) || !fs.existsSync(this.storageFile!)) return Q.resolve(false);
+
+        return Q.nfcall<string>(fs.readFile, this.storageFile!, 'utf-8')
+            .then((content: string) => {
+                let stored: StoredIndex = JSON.parse(content);
+                if (stored.version !== INDEX_VERSION) return false;
+
+                stored.entries.forEach(entry => this.entries.set(entry.path, entry));
+                this.ctrl.logger.debug("Loaded index with ", this.entries.size, " files");
+                return true;
+            })
+            .catch(error => {
+                this.ctrl.logger.error("Failed to load the index, the journal is scanned again.", error);
+                return false;
+            });
+    }
+
+    /**
+     * Walks all base directories: new or modified files are (re)indexed, files which don't exist anymore 
+     * are removed from the index. The files within directories which couldn't be read (e.g. an unmounted 
+     * drive) are kept. 
+     */
+    private scan(): Q.Promise<void> {
+        this.ctrl.logger.trace("Entering scan() in actions/indexer.ts");
+
+        let found: Set<string> = new Set();
+        let failed: string[] = [];
+        let directories: string[] = this.ctrl.ui.getBaseDirectories().map(directory => directory.path);
+
+        return directories
+            .reduce((previous, directory) => previous.then(() => this.walk(directory, found, failed)), Q.resolve<void>(undefined))
+            .then(() => {
+                this.getEntries()
+                    .filter(entry => !found.has(entry.path))
+                    .filter(entry => !failed.some(path => path === entry.path || this.isWithin(path, entry.path)))
+                    .forEach(entry => this.entries.delete(entry.path));
+
+                this.ctrl.logger.debug("Scanned journal with ", this.entries.size, " files");
+                this.changed();
+            });
+    }
+
+    /**
+     * Indexes all files in the directory (and its subdirectories) one after another, hidden files are ignored. 
+     * Unreadable directories and files are skipped (and collected in failed). 
+     */
+    private walk(directory: string, found: Set<string> = new Set(), failed: string[] = []): Q.Promise<void> {
+        return Q.nfcall<string[]>(fs.readdir, directory)
+            .then((files: string[]) => files
+                .filter(file => !file.startsWith("."))
+                .reduce((previous, file) => previous.then(() => {
+                    let path: string = Path.join(directory, file);
+                    return Q.nfcall<fs.Stats>(fs.stat, path)
+                        .then((stats: fs.Stats) => {
+                            if (stats.isDirectory()) return this.walk(path, found, failed);
+
+                            found.add(path);
+                            return this.visit(path, stats).then(() => { });
+                        })
+                        .catch(error => {
+                            failed.push(path);
+                            this.ctrl.logger.warn("Skipped file " + path + ": " + error.message);
+                        });
+                }), Q.resolve<void>(undefined)))
+            .then(() => { }, error => {
+                failed.push(directory);
+                this.ctrl.logger.warn("Skipped directory " + directory + ": " + error.message);
+            });
+    }
+
+    /**
+     * Indexes the file if it is new or has been modified since it has been indexed
+     */
+    private visit(path: string, stats: fs.Stats): Q.Promise<FileEntry> {
+        let indexed: FileEntry | undefined = this.entries.get(path);
+        if (indexed !== undefined && indexed.update_at === stats.mtimeMs) return Q.resolve(indexed);
+
+        return this.readEntry(path, stats).then((entry: FileEntry) => {
+            this.entries.set(path, entry);
+            return entry;
+        });
+    }
+
+    /**
+     * Builds the record for the file: type, scope and date are inferred from the path, title, tags and 
+     * links are read from the content of journal pages. 
+     */
+    private readEntry(path: string, stats: fs.Stats): Q.Promise<FileEntry> {
+        let parsed: Path.ParsedPath = Path.parse(path);
+        let entry: FileEntry = {
+            path: path,
+            name: parsed.base,
+            scope: this.getScope(path),
+            update_at: stats.mtimeMs,
+            created_at: stats.birthtimeMs,
+            type: this.ctrl.reader.inferType(parsed),
+            date: 0,
+            title: parsed.name,
+            tags: [],
+            links: []
+        };
+        entry.date = this.inferDate(entry).getTime();
+
+        if (entry.type === JournalPageType.ATTACHEMENT) return Q.resolve(entry);
+
+        return Q.nfcall<string>(fs.readFile, path, 'utf-8').then((content: string) => {
+            let heading: RegExpMatchArray | null = content.match(/^#\s+(.+)$/m);
+            if (heading !== null) entry.title = heading[1].trim();
+
+            J.Util.findTags(content).forEach(match => {
+                if (entry.tags.indexOf(match.tag) < 0) entry.tags.push(match.tag);
+            });
+
+            let match: RegExpExecArray | null;
+            LINK_EXPRESSION.lastIndex = 0;
+            while ((match = LINK_EXPRESSION.exec(content)) !== null) {
+                let link: string = match[1].split("#")[0];
+
+                // we only keep local files (no urls or anchors)
+                if (link.length === 0 || link.match(/^[a-z][\w+.-]*:/i)) continue;
+
+                try { link = decodeURI(link); } catch (error) { /* keep the link as it is */ }
+                link = Path.resolve(parsed.dir, link);
+                if (entry.links.indexOf(link) < 0) entry.links.push(link);
+            }
+            return entry;
+        });
+    }
+
+    /**
+     * Tries to find the date of a journal page in its path (e.g. "2026/10/19.md", "2026-10-19 Monday.md" 
+     * or "N20261019_Title.md"), defaults to the creation date of the file. 
+     */
+    private inferDate(entry: FileEntry): Date {
+        let match: RegExpMatchArray | null = entry.path.match(/(\d{4})[-_\/\\]?(\d{2})[-_\/\\]?(\d{2})(?!\d)/);
+        if (match !== null) {
+            let date: Date = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+            if (!isNaN(date.getTime()) && date.getMonth() === parseInt(match[2]) - 1) return date;
+        }
+        return new Date(entry.created_at);
+    }
+
+    /**
+     * The scope of the most specific base directory with the file (scopes sharing their base directory 
+     * with the default scope are not distinguished)
+     */
+    private getScope(path: string): string {
+        let scope: BaseDirectory | undefined;
+        this.ctrl.ui.getBaseDirectories()
+            .filter(directory => this.isWithin(directory.path, path))
+            .forEach(directory => {
+                if (scope === undefined || directory.path.length > scope.path.length) scope = directory;
+            });
+        return (scope === undefined) ? SCOPE_DEFAULT : scope.scope;
+    }
+
+    private isWithin(directory: string, path: string): boolean {
+        let relative: string = Path.relative(directory, path);
+        return relative.length > 0 && !relative.startsWith("..") && !Path.isAbsolute(relative);
+    }
+
+    private isHidden(path: string): boolean {
+        return this.ctrl.ui.getBaseDirectories()
+            .filter(directory => this.isWithin(directory.path, path))
+            .some(directory => Path.relative(directory.path, path).split(Path.sep).some(part => part.startsWith(".")));
+    }
+
+    private changed(): void {
+        this._onDidChange.fire();
+
+        if (this.saveTimer !== undefined) clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.save();
+        }, SAVE_DELAY);
+    }
+
+    private save(): void {
+        if (isNullOrUndefined(this.storageFile)) return;
+
+        try {
+            fs.mkdirSync(Path.dirname(this.storageFile!), { recursive: true });
+            let stored: StoredIndex = { version: INDEX_VERSION, entries: this.getEntries() };
+            fs.writeFileSync(this.storageFile!, JSON.stringify(stored), 'utf-8');
+        } catch (error) {
+            this.ctrl.logger.error("Failed to save the index.", error);
+        }
+    }
+
+}
@@ -62,7 +62,7 @@ export class Inject {
             // construct content to insert
             let content: string = tpl.value!;
             values.forEach((val: string[]) => {
-                content = content.replace(val[0], val[1]);
+                content = content.split(val[0]).join(val[1]);
             });
 
             // if (tpl-after) is empty, we will inject directly after header
@@ -102,7 +102,81 @@ export class Inject {
     }
 
     /**
-     * Injects a string into the given position within the given document. 
+     * Injects the memo or task of the given input into the journal entry (using the configured inline templates).
+     * If the input has no flags or no text, the document is returned untouched.
+     *
+     * @param {vscode.TextDocument} doc the journal entry
+     * @param {J.Model.Input} input the parsed user input
+     * @returns {Q.Promise<vscode.TextDocument>} the updated (and saved) document
+     * @memberof Inject
+     */
+    public injectInput(doc: vscode.TextDocument, input: J.Model.Input): Q.Promise<vscode.TextDocument> {
+        this.ctrl.logger.trace("Entering injectInput() in inject.ts with input: ", JSON.stringify(input));
+
+        return Q.Promise<vscode.TextDocument>((resolve, reject) => {
+            if (!input.hasFlags() || !input.hasMemo()) {
+                resolve(doc);
+                return;
+            }
+
+            let tpl: Q.Promise<J.Extension.InlineTemplate> = input.isTask() ?
+                this.ctrl.config.getTaskInlineTemplate(input.generateDate(), input.scope) :
+                this.ctrl.config.getMemoInlineTemplate(input.generateDate(), input.scope);
+
+            tpl
+                .then((tpl: J.Extension.InlineTemplate) => this.buildInlineString(doc, tpl, ["${input}", input.text]))
+                .then((inlineString: InlineString) => this.injectInlineString(inlineString))
+                .then((doc: vscode.TextDocument) => this.ctrl.ui.saveDocument(doc))
+                .then((doc: vscode.TextDocument) => resolve(doc))
+                .catch(error => {
+                    this.ctrl.logger.error("Failed to inject input into entry.", error);
+                    reject(error);
+                })
+                .done();
+        });
+    }
+
+    /**
+     * Injects a relative link to the note into the journal entry (using the configured note link template). If 
+     * the entry already references the note, the entry is returned untouched.
+     *
+     * @param {vscode.TextDocument} entry the journal entry
+     * @param {vscode.TextDocument} note the new note
+     * @param {J.Model.Input} input the input used to create the note (title and scope)
+     * @returns {Q.Promise<vscode.TextDocument>} the updated (and saved) entry
+     * @memberof Inject
+     */
+    public injectNoteLink(entry: vscode.TextDocument, note: vscode.TextDocument, input: J.Model.Input): Q.Promise<vscode.TextDocument> {
+        this.ctrl.logger.trace("Entering injectNoteLink() in inject.ts for note: ", note.fileName);
+
+        return Q.Promise<vscode.TextDocument>((resolve, reject) => {
+            this.ctrl.reader.getReferencedFiles(entry)
+                .then((references: vscode.Uri[]) => {
+                    if (references.findIndex(uri => uri.scheme === "file" && Path.normalize(uri.fsPath) === Path.normalize(note.uri.fsPath)) >= 0) {
+                        this.ctrl.logger.debug("Note is already linked in entry: ", note.fileName);
+                        resolve(entry);
+                        return;
+                    }
+
+                    let link: string = Path.relative(Path.dirname(entry.uri.fsPath), note.uri.fsPath).split(Path.sep).join('/');
+                    let title: string = input.text.trim().length > 0 ? input.text.trim() : Path.parse(note.fileName).name;
+
+                    return this.ctrl.config.getNoteLinkInlineTemplate(new Date(), input.scope)
+                        .then((tpl: J.Extension.InlineTemplate) => this.buildInlineString(entry, tpl, ["${title}", title], ["${link}", encodeURI(link)]))
+                        .then((inlineString: InlineString) => this.injectInlineString(inlineString))
+                        .then((doc: vscode.TextDocument) => this.ctrl.ui.saveDocument(doc))
+                        .then((doc: vscode.TextDocument) => resolve(doc));
+                })
+                .catch(error => {
+                    this.ctrl.logger.error("Failed to inject link to note into entry.", error);
+                    reject(error);
+                })
+                .done();
+        });
+    }
+
+    /**
+     * Injects a string into the given position within the given document.
      * 
      * @param doc the vscode document 
      * @param content the string which is to be injected
@@ -223,8 +297,8 @@ export class Inject {
             // Fixme: add the tags inject them after header
             this.ctrl.config.getNotesTemplate(input.scope)
                 .then((ft: J.Extension.HeaderTemplate) => {
-                    ft.value = ft.value!.replace('${input}', input.text);
-                    ft.value = ft.value!.replace('${tags}', input.tags.join(" ") + '\n');
+                    ft.value = ft.value!.split('${input}').join(input.text);
+                    ft.value = ft.value!.split('${tags}').join(input.tags.join(" ") + '\n');
 
                     resolve(ft.value)
                 })
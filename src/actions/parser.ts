@@ -20,8 +20,10 @@
 import * as Q from 'q';
 import * as J from '../.';
 import * as Path from 'path';
+import * as moment from 'moment';
 import { isNullOrUndefined, isUndefined } from 'util';
 import { SCOPE_DEFAULT } from '../ext';
+import { JournalPageType } from '../ext/conf';
 
 /**
  * Helper Methods to interpret the input strings
@@ -29,6 +31,9 @@ import { SCOPE_DEFAULT } from '../ext';
 export class Parser {
     public today: Date;
     private expr: RegExp | undefined;
+    private flagExpr: RegExp | undefined;
+    private noteExpr: RegExp | undefined;
+    private exprLocalePack: J.Extension.LocalePack | undefined;
     private scopeExpression: RegExp = /\s#\w+\s/;
 
 
@@ -55,7 +60,13 @@ export class Parser {
             // Unscoped Notes are always created in today's folder
             let date = new Date();
             let path: string = "";
-            input.scope = SCOPE_DEFAULT;
+
+            // the scope might have been extracted already while parsing the input
+            if (input.hasScope()) {
+                input.tags.push("#" + input.scope);
+            } else {
+                input.scope = SCOPE_DEFAULT;
+            }
 
             // purge all tags from filename
 
@@ -149,14 +160,41 @@ export class Parser {
                 let input = new J.Model.Input();
                 this.today = new Date();
 
-                let res: RegExpMatchArray | null = value.match(this.getExpression());
-                if (isNullOrUndefined(res)) { reject("cancel"); }
+                // "note #clientA Sprint retro" creates a note, same as the command journal.note
+                let note: RegExpMatchArray | null = value.trim().match(this.getNoteExpression());
+                if (note !== null) {
+                    let noteInput = new J.Model.NoteInput();
+                    noteInput.text = note[1];
+                    this.resolveNotePathForInput(noteInput)
+                        .then((path: string) => {
+                            noteInput.path = path;
+                            resolve(noteInput);
+                        })
+                        .catch(error => reject(error))
+                        .done();
+                    return;
+                }
+
+                // a configured scope (e.g. "#work today") selects the base and patterns of the entry
+                value = this.extractScope(value, input);
+
+                // weeks and months ("next week", "2026-10") open their own pages, natural language expressions
+                // ("in 3 days", "end of month") are matched by the relative date grammar first
+                if (!this.extractPeriod(value, input) && !this.extractRelativeDate(value, input)) {
+                    let res: RegExpMatchArray | null = value.match(this.getExpression());
+                    if (isNullOrUndefined(res)) { reject("cancel"); }
 
-                input.flags = this.extractFlags(res!);
-                input.offset = this.extractOffset(res!);
-                input.text = this.extractText(res!);
+                    input.flags = this.extractFlags(res!);
+                    input.offset = this.extractOffset(res!);
+                    input.text = this.extractText(res!);
+                }
                 input.tags = this.extractTags(value);
 
+                // relative due dates of tasks ("due:fri") are written as dates
+                if (input.isTask()) {
+                    input.text = this.resolveDueDates(input.text);
+                }
+
                 // flags but no text, show error
                 if (input.hasFlags() && !input.hasMemo()) {
                     reject("No text found for memo or task");
@@ -185,6 +223,64 @@ export class Parser {
     }
 
 
+    /**
+     * Parses a range of days for reports, e.g. "last week", "2026-10", "#work this month" or two days 
+     * separated by "..", e.g. "2026-10-01..2026-10-15" or "monday..today". 
+     *
+     * @param {string} value the value to be parsed
+     * @returns {Q.Promise<J.Util.DateRange>} the first and last day (and the scope, if one has been entered)
+     * @memberof Parser
+     */
+    public parseDateRange(value: string): Q.Promise<J.Util.DateRange> {
+        this.ctrl.logger.trace("Entering parseDateRange() in actions/parser.ts");
+
+        let values: string[] = value.split("..");
+        if (values.length > 2) return Q.reject<J.Util.DateRange>("Invalid range: " + value);
+
+        return Q.all(values.map(value => this.parseInput(value.trim())))
+            .then((inputs: J.Model.Input[]) => {
+                let days: moment.Moment[][] = inputs.map(input => {
+                    if (input instanceof J.Model.NoteInput || input.hasMemo() || (!input.hasOffset() && !input.isPeriod())) {
+                        throw new Error("Not a day, week or month: " + value);
+                    }
+
+                    let date: moment.Moment = moment(input.generateDate());
+                    if (input.type === JournalPageType.WEEK) return [date.clone().startOf('isoWeek'), date.clone().endOf('isoWeek')];
+                    if (input.type === JournalPageType.MONTH) return [date.clone().startOf('month'), date.clone().endOf('month')];
+                    return [date.clone().startOf('day'), date.clone().endOf('day')];
+                });
+
+                let range: J.Util.DateRange = { from: days[0][0].toDate(), to: days[days.length - 1][1].toDate() };
+                if (range.to < range.from) throw new Error("The end of the range is before its start: " + value);
+
+                let scoped: J.Model.Input | undefined = inputs.find(input => input.hasScope());
+                if (scoped !== undefined) range.scope = scoped.scope;
+                return range;
+            });
+    }
+
+
+    /**
+     * Splits the input for time tracking (e.g. "#work standup #clientA") into the scope (the first tag of a 
+     * configured scope), the tags and the description. 
+     *
+     * @param {string} value the value to be parsed
+     * @returns {J.Model.Input} the input with scope, tags and the description as text
+     * @memberof Parser
+     */
+    public parseTrackInput(value: string): J.Model.Input {
+        this.ctrl.logger.trace("Entering parseTrackInput() in actions/parser.ts");
+
+        let input = new J.Model.Input();
+        let tokens: string[] = this.extractScope(value, input).trim().split(/\s+/).filter(token => token.length > 0);
+
+        input.tags = tokens.filter(token => token.match(/^#\w+$/));
+        input.text = tokens.filter(token => !token.match(/^#\w+$/)).join(" ");
+        if (!input.hasScope()) input.scope = SCOPE_DEFAULT;
+        return input;
+    }
+
+
     /** PRIVATE FROM HERE **/
 
 
@@ -206,22 +302,100 @@ export class Parser {
 
 
 
+    /**
+     * Checks if the input contains a tag of a configured scope (e.g. "#work"). The first scope found is 
+     * set in the input and removed from the value, all other tags remain untouched. 
+     *
+     * @private
+     * @param {string} value the user input
+     * @param {J.Model.Input} input the input to update
+     * @returns {string} the value without the scope
+     * @memberof Parser
+     */
+    private extractScope(value: string, input: J.Model.Input): string {
+        let scopes: string[] = this.ctrl.config.getScopes().filter(scope => scope != SCOPE_DEFAULT);
+
+        let tokens: string[] = value.trim().split(/\s+/);
+        let index: number = tokens.findIndex(token => token.startsWith("#") && scopes.indexOf(token.substring(1)) >= 0);
+        if (index < 0) { return value; }
+
+        input.scope = tokens[index].substring(1);
+        tokens.splice(index, 1);
+        return tokens.join(" ");
+    }
+
+    /**
+     * Checks if the input is a week or a month, like "week", "next week", "2026-W42", "month" or "2026-10". If so,
+     * the offset, the expression and the page type are set in the input. 
+     *
+     * @private
+     * @param {string} value the user input
+     * @param {J.Model.Input} input the input to update
+     * @returns {boolean} true, if the input is a week or month
+     * @memberof Parser
+     */
+    private extractPeriod(value: string, input: J.Model.Input): boolean {
+        moment.locale(this.ctrl.config.getLocale());
+        let period: J.Util.RelativePeriod | undefined = J.Util.parseRelativePeriod(value, this.today, this.ctrl.config.getLocalePack());
+        if (isUndefined(period)) { return false; }
+
+        input.type = (period.unit === "week") ? JournalPageType.WEEK : JournalPageType.MONTH;
+        input.offset = period.offset;
+        input.expression = period.expression;
+        return true;
+    }
+
+    /**
+     * Checks if the input (after an optional flag) starts with a relative date expression like "in 3 days" or 
+     * "first monday of november". If so, flags, offset, text and the expression are set in the input. 
+     *
+     * @private
+     * @param {string} value the user input
+     * @param {J.Model.Input} input the input to update
+     * @returns {boolean} true, if a relative date expression has been found
+     * @memberof Parser
+     */
+    private extractRelativeDate(value: string, input: J.Model.Input): boolean {
+        let flagExpression: RegExp = this.getFlagExpression();
+        let flag: RegExpMatchArray | null = value.match(flagExpression);
+        let remainder: string = (flag === null) ? value : value.substring(flag[0].length);
+
+        moment.locale(this.ctrl.config.getLocale());
+        let relative: J.Util.RelativeDate | undefined = J.Util.parseRelativeDate(remainder, this.today, this.ctrl.config.getLocalePack());
+        if (isUndefined(relative)) { return false; }
+
+        // the flag can also follow the expression, e.g. "in 3 days task call the bank"
+        let text: string = relative.rest;
+        if (flag === null) {
+            flag = text.match(flagExpression);
+            if (flag !== null) { text = text.substring(flag[0].length); }
+        }
+
+        input.flags = (flag === null) ? "" : "task";
+        input.offset = relative.offset;
+        input.text = text;
+        input.expression = relative.expression;
+        return true;
+    }
+
     private extractText(values: string[]): string {
         /* Groups
-            8: text of memo
+            9: text of memo
         */
-        return (values[8] === null) ? "" : values[8];
+        return (isNullOrUndefined(values[9])) ? "" : values[9];
     }
 
 
     private extractFlags(values: string[]): string {
         /* Groups (see https://regex101.com/r/sCtPOb/2)
             1: flag "task"
-            7: flag "task" 
+            8: flag "task" 
+
+            all flags of the locale pack are task flags, we normalize them to "task"
         */
 
-        let res = (!isNullOrUndefined(values[1])) ? values[1] : values[7];
-        return (isNullOrUndefined(res)) ? "" : res;
+        let res = (!isNullOrUndefined(values[1])) ? values[1] : values[8];
+        return (isNullOrUndefined(res)) ? "" : "task";
     }
 
 
@@ -233,6 +407,7 @@ export class Parser {
             4:11-24
             5:"next"
             6:"monday"
+            7:"prochain" (modifier following the weekday, only for some locales)
         */
 
         if (!isNullOrUndefined(values[2])) {
@@ -244,11 +419,12 @@ export class Parser {
         if (!isNullOrUndefined(values[4])) {
             return this.resolveISOString(values[4]);
         }
-        if ((isNullOrUndefined(values[5])) && (!isNullOrUndefined(values[6]))) {
+        let modifier: string | undefined = J.Util.stringIsNotEmpty(values[5]) ? values[5] : J.Util.stringIsNotEmpty(values[7]) ? values[7] : undefined;
+        if ((isNullOrUndefined(modifier)) && (!isNullOrUndefined(values[6]))) {
             return this.resolveWeekday(values[6]);
         }
-        if ((!isNullOrUndefined(values[5])) && (!isNullOrUndefined(values[6]))) {
-            return this.resolveWeekday(values[6], values[5]);
+        if ((!isNullOrUndefined(modifier)) && (!isNullOrUndefined(values[6]))) {
+            return this.resolveWeekday(values[6], modifier);
         }
 
 
@@ -269,9 +445,49 @@ export class Parser {
     }
 
     private resolveShortcutString(value: string): number {
-        if (value.match(/today|tod|heute|0/)) { return 0; }
-        if (value.match(/tomorrow|tom|morgen/)) { return +1; }
-        if (value.match(/yesterday|yes|gestern/)) { return -1; }
+        let pack: J.Extension.LocalePack = this.ctrl.config.getLocalePack();
+        value = value.toLowerCase();
+
+        if (value === "0" || pack.today.indexOf(value) >= 0) { return 0; }
+        if (pack.tomorrow.indexOf(value) >= 0) { return +1; }
+        if (pack.yesterday.indexOf(value) >= 0) { return -1; }
+        return NaN;
+    }
+
+    /**
+     * Replaces relative due dates in the text of a task ("due:fri", "due:+3", "due:tomorrow", "due:11-01") with 
+     * the date ("due:2026-11-01"). Values which can't be resolved are left untouched. 
+     * 
+     * @param text the text of the task
+     * @returns the text with resolved due dates
+     */
+    private resolveDueDates(text: string): string {
+        return text.replace(/(^|\s)due:(\S+)/gi, (match: string, prefix: string, value: string) => {
+            let offset: number = this.resolveDueDate(value);
+            return isNaN(offset) ? match : prefix + "due:" + moment(this.today).add(offset, 'days').format("YYYY-MM-DD");
+        });
+    }
+
+    /**
+     * @param value a shortcut, offset, date or weekday (the next occurrence, today included)
+     * @returns the offset to the current day, or NaN
+     */
+    private resolveDueDate(value: string): number {
+        try {
+            if (value.match(/^[+-]\d+$/)) { return parseInt(value); }
+            if (value.match(/^(?:\d{4}-)?\d{1,2}-\d{1,2}$/)) { return this.resolveISOString(value); }
+
+            let shortcut: number = this.resolveShortcutString(value);
+            if (!isNaN(shortcut)) { return shortcut; }
+
+            let weekday: number = J.Util.getDayOfWeekForString(value, this.ctrl.config.getLocalePack().weekdays);
+            if (weekday > 0) {
+                let diff: number = weekday - moment(this.today).isoWeekday();
+                return (diff < 0) ? diff + 7 : diff;
+            }
+        } catch (error) {
+            this.ctrl.logger.debug("Failed to resolve due date: ", value);
+        }
         return NaN;
     }
 
@@ -321,17 +537,18 @@ export class Parser {
     }
 
     /**
-     * Resolves the weekday for a given string. Allowed strings are monday to friday. If a modifier is present 
-     * ("next" or "last"), it will return the according weekdey of last or next week. 
+     * Resolves the weekday for a given string. Allowed strings are monday to friday (in the language of the locale pack). 
+     * If a modifier is present ("next" or "last"), it will return the according weekdey of last or next week. 
      * 
      * @param weekday the weekday as a string 
      * @param mod next or last 
      * @returns the offset to the current day as number
      */
     public resolveWeekday(weekday: string, mod?: string): number {
+        let pack: J.Extension.LocalePack = this.ctrl.config.getLocalePack();
 
         // get name of weekday in input
-        let searchedDay = J.Util.getDayOfWeekForString(weekday);
+        let searchedDay = J.Util.getDayOfWeekForString(weekday, pack.weekdays);
         let currentDay: number = this.today.getDay();
         let diff = searchedDay - currentDay;
 
@@ -341,7 +558,7 @@ export class Parser {
 
         } else {
             // toggle mode (next or last)
-            let next = (mod.charAt(0) === 'n') ? true : false;
+            let next = (pack.next.indexOf(mod.toLowerCase()) >= 0) ? true : false;
 
             //   today is wednesday (currentDay = 3)
             // 'last monday' (default day of week: 1)
@@ -403,25 +620,62 @@ export class Parser {
             4:11-24
             5:"next"
             6:"monday"
-            7:"task"
-            8:"hello world"
+            7:"prochain" (modifier following the weekday, only for some locales)
+            8:"task"
+            9:"hello world"
         */
-        if (isNullOrUndefined(this.expr)) {
-            let flagsRX = "(?:(task|todo)\\s)";
-            let shortcutRX = "(?:(today|tod|yesterday|yes|tomorrow|tom|0)(?:\\s|$))";
+        let pack: J.Extension.LocalePack = this.ctrl.config.getLocalePack();
+        if (isNullOrUndefined(this.expr) || this.exprLocalePack !== pack) {
+            let modifiers: string = this.alternatives(pack.next.concat(pack.last));
+
+            let flagsRX = "(?:(" + this.alternatives(pack.task) + ")\\s)";
+            let shortcutRX = "(?:(" + this.alternatives(pack.today.concat(pack.tomorrow, pack.yesterday)) + "|0)(?:\\s|$))";
             let offsetRX = "(?:((?:\\+|\\-)\\d+)(?:\\s|$))";
             // let isoDateRX = "(?:(\\d{4})\\-?(\\d{1,2})?\\-?(\\d{1,2})?\\s)"; 
             let isoDateRX = "(?:((?:\\d{4}\\-\\d{1,2}\\-\\d{1,2})|(?:\\d{1,2}\\-\\d{1,2})|(?:\\d{1,2}))(?:\\s|$))";
-            let weekdayRX = "(?:(next|last|n|l)?\\s?(monday|tuesday|wednesday|thursday|friday|saturday|sunday|mon|tue|wed|thu|fri|sat|sun|montag|dienstag|mittwoch|donnerstag|freitag|samstag|sonntag)\\s?)";
+            // the modifier following the weekday ("mardi prochain") is an empty group for most locales 
+            let postfixRX = (pack.postfix === true) ? "(?:\\s(" + modifiers + "))?" : "()";
+            let weekdayRX = "(?:(?:(" + modifiers + ")\\s)?(" + this.alternatives(pack.weekdays.reduce((all, names) => all.concat(names), [])) + ")" + postfixRX + "(?:\\s|$))";
 
             let completeExpression: string = "^" + flagsRX + "?(?:" + shortcutRX + "|" + offsetRX + "|" + isoDateRX + "|" + weekdayRX + ")?" + flagsRX + "?(.*)" + "$";
             // console.log(completeExpression);
 
             this.expr = new RegExp(completeExpression);
+            this.flagExpr = new RegExp("^(" + this.alternatives(pack.task) + ")(?:\\s+|$)");
+            this.noteExpr = new RegExp("^(?:" + this.alternatives(pack.note) + ")\\s+(.+)$");
+            this.exprLocalePack = pack;
         }
         return this.expr;
     }
 
+    /**
+     * Expression matching a task flag at the beginning of the input (using the flags of the locale pack)
+     */
+    private getFlagExpression(): RegExp {
+        this.getExpression();
+        return this.flagExpr!;
+    }
+
+    /**
+     * Expression matching the note flag at the beginning of the input, the title of the note is in group 1
+     */
+    private getNoteExpression(): RegExp {
+        this.getExpression();
+        return this.noteExpr!;
+    }
+
+    /**
+     * Joins the words into alternatives for a regular expression, longest words first (otherwise "mon" would 
+     * match before "monday")
+     */
+    private alternatives(words: string[]): string {
+        return words
+            .slice()
+            .sort((a, b) => b.length - a.length)
+            .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join("|");
+    }
+
 
 }
 
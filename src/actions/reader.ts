@@ -24,8 +24,10 @@ import * as Q from 'q';
 import { isNull, isNullOrUndefined, deprecate } from 'util';
 import * as vscode from 'vscode';
 import * as J from '../';
+import moment = require('moment');
 import { ScopedTemplate, JournalPageType } from '../ext/conf';
 import { stringIsNotEmpty } from '../util';
+import { TaskMetadata, TaskLine, parseTaskMetadata, parseTaskLine } from '../util/tasks';
 
 export interface FileEntry {
     path: string;
@@ -34,6 +36,14 @@ export interface FileEntry {
     update_at: number;
     created_at: number;
     type: JournalPageType;
+    /** the date of the journal page (inferred from the path, or the creation date of the file) */
+    date: number;
+    /** the first heading of the page, or the name of the file */
+    title: string;
+    /** the tags within the page (without "#") */
+    tags: string[];
+    /** the local files linked in the page (absolute paths) */
+    links: string[];
 }
 
 export interface BaseDirectory {
@@ -41,6 +51,36 @@ export interface BaseDirectory {
     scope: string;
 }
 
+export interface TaskEntry extends TaskMetadata {
+    /** path of the journal page with the task */
+    path: string;
+    /** line of the task (starting with 0) */
+    line: number;
+    /** the text of the task (without the checkbox) */
+    text: string;
+    /** true if the task is in progress ("[/]") */
+    inProgress: boolean;
+    scope: string;
+    /** the date of the journal page (inferred from the path, or the creation date of the file) */
+    date: Date;
+}
+
+export interface SearchHit {
+    /** path of the journal page */
+    path: string;
+    /** the matching line (starting with 0) */
+    line: number;
+    /** the text of the matching line (or the title of the page, if only filters have been given) */
+    text: string;
+    scope: string;
+    /** the date of the journal page */
+    date: Date;
+    type: JournalPageType;
+}
+
+// maximal number of hits of a search
+const MAX_SEARCH_HITS: number = 200;
+
 /** 
  * Anything which scans the files in the background goes here
  * 
@@ -51,79 +91,36 @@ export class Reader {
 
     //private previousEntries: Array<FileEntry> = [];
 
+    // the open tasks of the journal pages, with the modification time of the file when they have been read
+    private taskCache: Map<string, [number, { line: number, text: string, inProgress: boolean }[]]> = new Map();
+
+    // the lines of the searched journal pages, with the modification time of the file when they have been read (cleared when the search is closed)
+    private searchCache: Map<string, [number, string[]]> = new Map();
+
 
     /**
-     * Loads previous entries. 
-     * 
-     * Update: ignore threshold
+     * Returns the files of the journal modified after the given threshold, the files are taken from the 
+     * index (see Indexer) once it is ready. 
      *
-     * @returns {Q.Promise<[string]>}
+     * @param {number} thresholdInMs only files modified after this time (0 for all files)
+     * @param {BaseDirectory[]} directories the base directories, the files get the scope of their directory
+     * @returns {Q.Promise<FileEntry[]>} the files (copies of the indexed entries)
      * @memberof Reader
-     * @deprecated  aargh, why?
      */
-    public getPreviouslyAccessedFiles(thresholdInMs: number, callback: Function, picker: any, type: JournalPageType, directories: BaseDirectory[]): void {
-
-        /*
-        deferred.resolve(this.previousEntries.map((f: FileEntry) => {
-            return f.path; 
-        })); */
+    public getIndexedFiles(thresholdInMs: number, directories: BaseDirectory[]): Q.Promise<FileEntry[]> {
+        this.ctrl.logger.trace("Entering getIndexedFiles() in actions/reader.ts");
 
-        // go into base directory, find all files changed within the last 40 days
-        // for each file, check if it is an entry, a note or an attachement
-        Q.fcall(() => {
-            this.ctrl.logger.trace("Entering getPreviousJournalFiles() in actions/reader.ts and directory: " + directories);
+        return this.ctrl.indexer.ready().then(() => {
+            let result: FileEntry[] = [];
             directories.forEach(directory => {
-                this.walkDir(directory.path, thresholdInMs, (entry: FileEntry) => {
-                    /*if (this.previousEntries.findIndex(e => e.path.startsWith(entry.path)) == -1) {
-                        
-                        this.previousEntries.push(entry);
-                    }*/
-
-                    entry.type = this.inferType(Path.parse(entry.path));
-                    entry.scope = directory.scope;
-                    // this adds the item to the quickpick list of vscode (the addItem Function)
-                    callback(entry, picker, type);
-
-                });
+                this.ctrl.indexer.getEntries(directory.path)
+                    .filter(entry => entry.update_at > thresholdInMs)
+                    .forEach(entry => result.push(Object.assign({}, entry, { scope: directory.scope })));
             });
+            return result;
         });
     }
 
-    public getPreviouslyAccessedFilesSync(thresholdInMs: number, directories: BaseDirectory[]): Q.Promise<FileEntry[]> {
-
-        return Q.Promise<FileEntry[]>((resolve, reject) => {
-            try {
-                this.ctrl.logger.trace("Entering getPreviousJournalFilesSync() in actions/reader.ts");
-
-                let result: FileEntry[] = [];
-
-                // go into base directory, find all files changed within the last 40 days (see config)
-                // for each file, check if it is an entry, a note or an attachement
-                directories.forEach(directory => {
-                    this.walkDirSync(directory.path, thresholdInMs, (entry: FileEntry) => {
-                        /*if (this.previousEntries.findIndex(e => e.path.startsWith(entry.path)) == -1) {
-                            this.inferType(entry);
-                          //  this.previousEntries.push(entry);
-                        }*/
-                        entry.type = this.inferType(Path.parse(entry.path));
-                        entry.scope = directory.scope;
-                        result.push(entry);
-                    });
-                });
-                resolve(result);
-            } catch (error) {
-                reject(error);
-            }
-
-        });
-
-
-        /*
-        
-            */
-
-    }
-
     /**
      * Tries to infer the file type from the path by matching against the configured patterns
      * @param entry 
@@ -137,7 +134,8 @@ export class Reader {
             // this is getting out of hand if we need to infer it by scanning the patterns from the settings.
             // We keep it simple: if the filename contains only digits and special chars, we assume it 
             // is a journal entry. Everything else is a journal note. 
-            if (entry.name.match(/^[\d|\-|_]+$/gm)) {
+            // weekly pages (e.g. 2026-W42) are listed with the entries. 
+            if (entry.name.match(/^[\d|\-|_]+$/gm) || entry.name.match(/^\d{4}-W\d{2}$/)) {
                 return JournalPageType.ENTRY; // any entry
             } else {
                 return JournalPageType.NOTE; // anything else is a note
@@ -148,65 +146,6 @@ export class Reader {
 
 
 
-    /**
-     * Scans journal directory and scans for notes
-     * 
-     * Update: Removed age threshold, take everything
-     * Update: switched to async with readdir
-     * 
-     * See https://medium.com/@allenhwkim/nodejs-walk-directory-f30a2d8f038f
-     * @param dir 
-     * @param callback 
-     */
-    private async walkDir(dir: string, thresholdInMs: number, callback: Function) {
-        fs.readdir(dir, (err, files) => {
-            // we ignore errors here
-
-            files.forEach(f => {
-                let dirPath = Path.join(dir, f);
-                let stats: fs.Stats = fs.statSync(dirPath);
-
-                if (stats.isDirectory()) {
-                    this.walkDir(dirPath, thresholdInMs, callback);
-                } else {
-                    callback({
-                        path: Path.join(dir, f),
-                        name: f,
-                        updated_at: stats.mtime,
-                        accessed_at: stats.atime,
-                        created_at: stats.birthtime
-                    });
-                }
-            });
-        });
-    }
-
-    private async walkDirSync(dir: string, thresholdDateInMs: number, callback: Function) {
-        fs.readdirSync(dir).forEach(f => {
-            if (f.startsWith(".")) return;
-
-            let dirPath = Path.join(dir, f);
-            let stats: fs.Stats = fs.statSync(dirPath);
-
-            // if last access time after threshold and item is directory
-            if ((stats.atimeMs > thresholdDateInMs) && (stats.isDirectory())) {
-                this.walkDirSync(dirPath, thresholdDateInMs, callback);
-
-                // if modified time after threshold and item is file
-            } else if (stats.mtimeMs > thresholdDateInMs) {
-
-                callback({
-                    path: Path.join(dir, f),
-                    name: f,
-                    updated_at: stats.mtimeMs,
-                    accessed_at: stats.atimeMs,
-                    created_at: stats.birthtimeMs
-
-                });
-            };
-        });
-    }
-
     public async checkDirectory(d: Date, entries: string[]) {
         await this.ctrl.config.getNotesPathPattern(d)
             .then(f => {
@@ -248,7 +187,14 @@ export class Reader {
                 let match: RegExpExecArray | null;
 
                 while (!isNull(match = regexp.exec(doc.getText()))) {
-                    references.push(vscode.Uri.parse(match![1]));
+                    // links without scheme are relative to the journal page
+                    if (match![1].match(/^[a-zA-Z][\w+.-]+:/)) {
+                        references.push(vscode.Uri.parse(match![1]));
+                    } else {
+                        let link: string = match![1];
+                        try { link = decodeURI(link); } catch (error) { /* keep the link as it is */ }
+                        references.push(vscode.Uri.file(Path.resolve(Path.dirname(doc.uri.fsPath), link)));
+                    }
                 }
 
                 this.ctrl.logger.trace("getReferencedFiles() - Referenced files in document: ", references.length);
@@ -386,7 +332,10 @@ export class Reader {
             throw Error("Not a valid value for offset");
         }
         this.ctrl.logger.trace("Entering loadEntryForInput() in actions/reader.ts and offset " + input.offset);
-        return this.ctrl.reader.loadEntryForDate(input.generateDate());
+        if (input.isPeriod()) {
+            return this.ctrl.reader.loadPeriodForDate(input.generateDate(), input.type, input.scope);
+        }
+        return this.ctrl.reader.loadEntryForDate(input.generateDate(), input.scope);
 
     }
 
@@ -397,11 +346,12 @@ export class Reader {
      * Loads the journal entry for the given date. If no entry exists, promise is rejected with the invalid path
      *
      * @param {Date} date the date for the entry
+     * @param {string} [scope] the scope of the entry (default if empty)
      * @returns {Q.Promise<vscode.TextDocument>} the document
      * @throws {string} error message
      * @memberof Reader
      */
-    public loadEntryForDate(date: Date): Q.Promise<vscode.TextDocument> {
+    public loadEntryForDate(date: Date, scope?: string): Q.Promise<vscode.TextDocument> {
 
         return Q.Promise<vscode.TextDocument>((resolve, reject) => {
             if (isNullOrUndefined(date) || date.toString().includes("Invalid")) {
@@ -414,8 +364,8 @@ export class Reader {
             let path: string = "";
 
             Q.all([
-                this.ctrl.config.getEntryPathPattern(date),
-                this.ctrl.config.getEntryFilePattern(date)
+                this.ctrl.config.getEntryPathPattern(date, scope),
+                this.ctrl.config.getEntryFilePattern(date, scope)
 
             ]).then(([pathname, filename]) => {
                 path = Path.resolve(pathname.value!, filename.value!);
@@ -426,7 +376,7 @@ export class Reader {
                     this.ctrl.logger.error(error);
                     reject(error);
                 }
-                return this.ctrl.writer.createEntryForPath(path, date);
+                return this.ctrl.writer.createEntryForPath(path, date, scope);
 
                 // }).then((_doc: vscode.TextDocument) => {
                 // this.ctrl.logger.debug("loadEntryForDate() - Loaded file in:", _doc.uri.toString());
@@ -443,6 +393,330 @@ export class Reader {
         });
     }
 
-}
 
+    /**
+     * Loads the weekly or monthly page for the period containing the given date. If the page doesn't exist yet, 
+     * it will be created (with the configured week or month template). 
+     *
+     * @param {Date} date any date within the week or month
+     * @param {JournalPageType} type either WEEK or MONTH
+     * @param {string} [scope] the scope of the page (default if empty)
+     * @returns {Q.Promise<vscode.TextDocument>} the document
+     * @memberof Reader
+     */
+    public loadPeriodForDate(date: Date, type: JournalPageType, scope?: string): Q.Promise<vscode.TextDocument> {
+
+        return Q.Promise<vscode.TextDocument>((resolve, reject) => {
+            if (isNullOrUndefined(date) || date.toString().includes("Invalid")) {
+                reject("Invalid date");
+                return;
+            }
+
+            this.ctrl.logger.trace("Entering loadPeriodForDate() in actions/reader.ts for date " + date.toISOString());
+
+            let path: string = "";
+            let week: boolean = (type === JournalPageType.WEEK);
+
+            Q.all([
+                week ? this.ctrl.config.getWeekPathPattern(date, scope) : this.ctrl.config.getMonthPathPattern(date, scope),
+                week ? this.ctrl.config.getWeekFilePattern(date, scope) : this.ctrl.config.getMonthFilePattern(date, scope)
+
+            ]).then(([pathname, filename]) => {
+                path = Path.resolve(pathname.value!, filename.value!);
+                return this.ctrl.ui.openDocument(path);
+
+            }).catch((error: Error) => {
+                if (!error.message.startsWith("cannot open file:")) {
+                    this.ctrl.logger.error(error);
+                    reject(error);
+                }
+                return this.ctrl.writer.createPeriodPageForPath(path, date, type, scope);
+
+            }).then((_doc: vscode.TextDocument) => {
+                resolve(_doc);
+
+            }).catch((error: Error) => {
+                this.ctrl.logger.error(error);
+                reject("Failed to load page for " + (week ? "week" : "month") + " of date: " + date.toDateString());
+
+            }).done();
+        });
+    }
+
+    /**
+     * Looks for the most recent entry before the given date (within the given number of days). 
+     *
+     * @param {Date} date the date of the current entry
+     * @param {number} lookBack the maximum number of days to look back
+     * @param {string} [scope] the scope of the entry (default if empty)
+     * @returns {Q.Promise<vscode.TextDocument | null>} the previous entry, or null if there is none
+     * @memberof Reader
+     */
+    public findPreviousEntry(date: Date, lookBack: number, scope?: string): Q.Promise<vscode.TextDocument | null> {
+        this.ctrl.logger.trace("Entering findPreviousEntry() in actions/reader.ts for date " + date.toISOString());
+
+        let find = (days: number): Q.Promise<vscode.TextDocument | null> => {
+            if (days > lookBack) return Q.resolve<vscode.TextDocument | null>(null);
+
+            let previous: Date = new Date(date.getTime());
+            previous.setDate(previous.getDate() - days);
+
+            return Q.all([
+                this.ctrl.config.getEntryPathPattern(previous, scope),
+                this.ctrl.config.getEntryFilePattern(previous, scope)
+            ]).then(([pathname, filename]) => {
+                let path: string = Path.resolve(pathname.value!, filename.value!);
+                return fs.existsSync(path) ? this.ctrl.ui.openDocument(path) : find(days + 1);
+            });
+        };
+
+        return find(1);
+    }
+
+    /**
+     * Scans all journal pages (entries and notes) in the given directories for open tasks ("- [ ] ...") and tasks in progress ("- [/] ..."). 
+     *
+     * @param {BaseDirectory[]} directories the base directories of the journal (one per scope)
+     * @param {J.Util.DateRange} [range] only the journal pages of these days (all pages if empty)
+     * @returns {Q.Promise<TaskEntry[]>} the open tasks
+     * @memberof Reader
+     */
+    public getOpenTasks(directories: BaseDirectory[], range?: J.Util.DateRange): Q.Promise<TaskEntry[]> {
+        this.ctrl.logger.trace("Entering getOpenTasks() in actions/reader.ts");
+
+        let tasks: TaskEntry[] = [];
+        return this.getJournalPages(directories)
+            .then(pages => pages
+                .filter(([entry, date]) => isNullOrUndefined(range) || (date >= range!.from && date <= range!.to))
+                // the pages are read one after another (the journal might have thousands of them)
+                .reduce((previous, [entry, date]) => previous
+                    .then(() => this.getTaskLines(entry))
+                    .then(lines => lines.forEach(task => {
+                        tasks.push(Object.assign({ path: entry.path, line: task.line, text: task.text, inProgress: task.inProgress, scope: entry.scope, date: date }, parseTaskMetadata(task.text)));
+                    })), Q.resolve<void>(undefined)))
+            .then(() => tasks);
+    }
+
+    /**
+     * Returns the open tasks of the journal page (cached as long as the file is not modified)
+     */
+    private getTaskLines(entry: FileEntry): Q.Promise<{ line: number, text: string, inProgress: boolean }[]> {
+        let cached = this.taskCache.get(entry.path);
+        if (cached !== undefined && cached[0] === entry.update_at) return Q.resolve(cached[1]);
+
+        return Q.nfcall<string>(fs.readFile, entry.path, 'utf-8')
+            .then((content: string) => {
+                let tasks: { line: number, text: string, inProgress: boolean }[] = [];
+                content.split(/\r?\n/).forEach((text, line) => {
+                    let task: TaskLine | undefined = parseTaskLine(text);
+                    if (task !== undefined && (task.state === " " || task.state === "/")) tasks.push({ line: line, text: task.text, inProgress: task.state === "/" });
+                });
+                this.taskCache.set(entry.path, [entry.update_at, tasks]);
+                return tasks;
+            });
+    }
+
+    /**
+     * Marks the days of the calendar with an existing journal entry and counts the notes and open tasks of each day. 
+     *
+     * @param {J.Util.CalendarDay[][]} weeks the weeks of the calendar (see J.Util.buildCalendarMonth)
+     * @param {string} scope the scope of the journal pages
+     * @returns {Q.Promise<J.Util.CalendarDay[][]>} the updated weeks
+     * @memberof Reader
+     */
+    public getCalendarDays(weeks: J.Util.CalendarDay[][], scope: string): Q.Promise<J.Util.CalendarDay[][]> {
+        this.ctrl.logger.trace("Entering getCalendarDays() in actions/reader.ts for scope " + scope);
+
+        let days: Map<string, J.Util.CalendarDay> = new Map();
+        weeks.forEach(week => week.forEach(day => days.set(day.date, day)));
+
+        let range: J.Util.DateRange = J.Util.getCalendarRange(weeks);
+        let directories: BaseDirectory[] = this.ctrl.ui.getBaseDirectories().filter(directory => directory.scope === scope);
+
+        return this.ctrl.indexer.ready()
+            .then(() => Q.all(Array.from(days.values()).map(day => {
+                let date: Date = moment(day.date, "YYYY-MM-DD").toDate();
+                return Q.all([
+                    this.ctrl.config.getEntryPathPattern(date, scope),
+                    this.ctrl.config.getEntryFilePattern(date, scope)
+                ]).then(([pathname, filename]) => {
+                    day.entry = this.ctrl.indexer.getEntry(Path.resolve(pathname.value!, filename.value!)) !== undefined;
+                });
+            })))
+            .then(() => this.getJournalPages(directories))
+            .then(pages => {
+                pages
+                    .filter(([entry, date]) => entry.type === JournalPageType.NOTE)
+                    .forEach(([entry, date]) => {
+                        let day: J.Util.CalendarDay | undefined = days.get(moment(date).format("YYYY-MM-DD"));
+                        if (day !== undefined) day.notes++;
+                    });
+                return this.getOpenTasks(directories, range);
+            })
+            .then((tasks: TaskEntry[]) => {
+                tasks.forEach(task => {
+                    let day: J.Util.CalendarDay | undefined = days.get(moment(task.date).format("YYYY-MM-DD"));
+                    if (day !== undefined) day.tasks++;
+                });
+                return weeks;
+            });
+    }
+
+    /**
+     * Collects the existing journal entries of the days looked back to from the given day ("On this day"): one week, 
+     * one month and six months ago and the same day in every previous year (see J.Util.getRetrospectiveDays). 
+     *
+     * @param {Date} today the current day
+     * @param {string} [scope] the scope of the entries (default if empty)
+     * @returns {Q.Promise<J.Util.RetrospectiveEntry[]>} the entries with their excerpts, the most recent first
+     * @memberof Reader
+     */
+    public getRetrospective(today: Date, scope?: string): Q.Promise<J.Util.RetrospectiveEntry[]> {
+        this.ctrl.logger.trace("Entering getRetrospective() in actions/reader.ts for date " + today.toISOString());
+
+        return this.ctrl.indexer.ready()
+            .then(() => {
+                let dates: number[] = this.ctrl.indexer.getEntries()
+                    .filter(entry => entry.type === JournalPageType.ENTRY)
+                    .map(entry => entry.date);
+                let since: number = (dates.length > 0) ? new Date(Math.min(...dates)).getFullYear() : today.getFullYear();
+
+                return Q.all(J.Util.getRetrospectiveDays(today, since).map(day => Q.all([
+                    this.ctrl.config.getEntryPathPattern(day.date, scope),
+                    this.ctrl.config.getEntryFilePattern(day.date, scope)
+                ]).then(([pathname, filename]) => {
+                    let path: string = Path.resolve(pathname.value!, filename.value!);
+                    if (this.ctrl.indexer.getEntry(path) === undefined) return null;
+
+                    return Q.nfcall<string>(fs.readFile, path, 'utf-8').then((content: string) => <J.Util.RetrospectiveEntry>({
+                        label: day.label,
+                        date: day.date,
+                        path: path,
+                        link: vscode.Uri.file(path).toString(),
+                        excerpt: J.Util.getExcerpt(content)
+                    }));
+                })));
+            })
+            .then(entries => <J.Util.RetrospectiveEntry[]>entries.filter(entry => entry !== null));
+    }
+
+    /**
+     * Scans the journal pages of the given range for time tracking lines ("09:00-10:30 |  | #clientA | standup"). 
+     *
+     * @param {BaseDirectory[]} directories the base directories of the journal (one per scope)
+     * @param {J.Util.DateRange} range the days of the journal pages (inferred from their paths)
+     * @returns {Q.Promise<J.Util.TrackedTime[]>} the tracked times
+     * @memberof Reader
+     */
+    public getTrackedTimes(directories: BaseDirectory[], range: J.Util.DateRange): Q.Promise<J.Util.TrackedTime[]> {
+        this.ctrl.logger.trace("Entering getTrackedTimes() in actions/reader.ts");
+
+        let times: J.Util.TrackedTime[] = [];
+        return this.getJournalPages(directories)
+            .then(pages => pages
+                .filter(([entry, date]) => date >= range.from && date <= range.to)
+                // the pages are read one after another (a timesheet might span a whole year)
+                .reduce((previous, [entry, date]) => previous
+                    .then(() => Q.nfcall<string>(fs.readFile, entry.path, 'utf-8'))
+                    .then((content: string) => content.split(/\r?\n/).forEach((text, line) => {
+                        let time: J.Util.TrackedTime | undefined = J.Util.parseTrackLine(text);
+                        if (time !== undefined) {
+                            times.push(Object.assign(time, { path: entry.path, line: line, scope: entry.scope, date: date }));
+                        }
+                    })), Q.resolve<void>(undefined)))
+            .then(() => times);
+    }
+
+    /**
+     * Searches the journal pages for lines matching the query, the newest pages first. The pages are filtered by 
+     * type, date and tags (from the index) before their content is searched. If the query has only filters, the 
+     * matching pages are returned (with their title). 
+     *
+     * @param {J.Util.SearchQuery} query the parsed search input
+     * @param {BaseDirectory[]} directories the base directories of the scopes to search in
+     * @returns {Q.Promise<SearchHit[]>} the hits (at most 200)
+     * @memberof Reader
+     */
+    public searchJournal(query: J.Util.SearchQuery, directories: BaseDirectory[]): Q.Promise<SearchHit[]> {
+        this.ctrl.logger.trace("Entering searchJournal() in actions/reader.ts");
+
+        let filtersOnly: boolean = query.terms.length === 0 && query.tags.length === 0;
+        if (filtersOnly && query.scopes.length === 0 && query.types.length === 0 && isNullOrUndefined(query.after) && isNullOrUndefined(query.before)) {
+            return Q.resolve<SearchHit[]>([]);
+        }
+
+        let hits: SearchHit[] = [];
+        let tags: string[] = query.tags.map(tag => tag.toLowerCase());
+
+        return this.getJournalPages(directories)
+            .then(pages => pages
+                .filter(([entry, date]) =>
+                    (query.types.length === 0 || query.types.indexOf(entry.type === JournalPageType.NOTE ? "note" : "entry") >= 0) &&
+                    (isNullOrUndefined(query.after) || date >= query.after!) &&
+                    (isNullOrUndefined(query.before) || date <= query.before!) &&
+                    tags.every(tag => entry.tags.some(t => t.toLowerCase() === tag)))
+                .sort(([a, dateA], [b, dateB]) => (dateB.getTime() - dateA.getTime()) || a.path.localeCompare(b.path))
+                // the pages are read one after another, until enough hits have been found
+                .reduce((previous, [entry, date]) => previous.then(() => {
+                    if (hits.length >= MAX_SEARCH_HITS) return;
+
+                    if (filtersOnly) {
+                        hits.push({ path: entry.path, line: 0, text: entry.title, scope: entry.scope, date: date, type: entry.type });
+                        return;
+                    }
+
+                    return this.getLines(entry).then(lines => lines.forEach((text, line) => {
+                        if (hits.length < MAX_SEARCH_HITS && J.Util.matchesSearchQuery(query, text)) {
+                            hits.push({ path: entry.path, line: line, text: text, scope: entry.scope, date: date, type: entry.type });
+                        }
+                    }));
+                }), Q.resolve<void>(undefined)))
+            .then(() => hits);
+    }
+
+    /**
+     * Forgets the lines of the searched journal pages (once the search is closed)
+     */
+    public clearSearchCache(): void {
+        this.searchCache.clear();
+    }
+
+    /**
+     * Returns the lines of the file (cached as long as the file is not modified)
+     */
+    private getLines(entry: FileEntry): Q.Promise<string[]> {
+        let cached: [number, string[]] | undefined = this.searchCache.get(entry.path);
+        if (cached !== undefined && cached[0] === entry.update_at) return Q.resolve(cached[1]);
+
+        return Q.nfcall<string>(fs.readFile, entry.path, 'utf-8')
+            .then((content: string) => {
+                let lines: string[] = content.split(/\r?\n/);
+                this.searchCache.set(entry.path, [entry.update_at, lines]);
+                return lines;
+            });
+    }
+
+    /**
+     * Returns the journal pages (entries and notes, no attachements) in the given directories with their inferred date
+     */
+    private getJournalPages(directories: BaseDirectory[]): Q.Promise<[FileEntry, Date][]> {
+        return this.getIndexedFiles(0, directories.filter(directory => fs.existsSync(directory.path)))
+            .then((entries: FileEntry[]) => {
+                let pages: [FileEntry, Date][] = [];
+                let scanned: string[] = [];
+
+                entries
+                    .filter(entry => entry.type !== JournalPageType.ATTACHEMENT)
+                    .forEach(entry => {
+                        // scopes might share their base directory with the default scope
+                        if (scanned.indexOf(entry.path) >= 0) return;
+                        scanned.push(entry.path);
+
+                        pages.push([entry, new Date(entry.date)]);
+                    });
+                return pages;
+            });
+    }
+
+}
 
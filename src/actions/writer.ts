@@ -19,9 +19,13 @@
 
 'use strict';
 
+import * as fs from 'fs';
+import * as Path from 'path';
+import * as moment from 'moment';
 import * as vscode from 'vscode';
 import * as J from '../.';
 import * as Q from 'q';
+import { JournalPageType } from '../ext/conf';
 
 /** 
  * Anything which modifies the text documents goes here. 
@@ -62,14 +66,25 @@ export class Writer {
      *
      * @param {string} path
      * @param {Date} date
+     * @param {string} [scope] the scope of the entry (default if empty)
      * @returns {Q.Promise<vscode.TextDocument>}
      * @memberof Writer
      */
-    public createEntryForPath(path: string, date: Date): Q.Promise<vscode.TextDocument> {
+    public createEntryForPath(path: string, date: Date, scope?: string): Q.Promise<vscode.TextDocument> {
         this.ctrl.logger.trace("Entering createEntryForPath() in ext/writer.ts for path: ", path);
 
+        // open tasks are only carried over into today's entry
+        let mode: J.Extension.CarryOverMode = moment(date).isSame(moment(), 'day') ? this.ctrl.config.getCarryOverTasks(scope) : "off";
+
+        // the previous entry is looked up once, for the open tasks in the template and to carry them over
+        let previous: Q.Promise<vscode.TextDocument | null> = (mode !== "off" || this.ctrl.config.isUsedInEntryTemplate("openTasks", scope)) ?
+            this.ctrl.reader.findPreviousEntry(date, this.ctrl.config.getCarryOverLookBack(scope), scope) :
+            Q.resolve<vscode.TextDocument | null>(null);
+
         return Q.Promise<vscode.TextDocument>((resolve, reject) => {
-            this.ctrl.config.getEntryTemplate(date)
+            previous
+                .then((previous: vscode.TextDocument | null) => this.getEntryTemplateContext(path, date, previous, scope))
+                .then((context: J.Util.TemplateContext) => this.ctrl.config.getEntryTemplate(date, scope, context))
                 .then((tpl: J.Extension.HeaderTemplate) => {
 
                     // TODO: make this configurable (for now we keep the format hardcorded)
@@ -79,6 +94,384 @@ export class Writer {
                 .then((content) => {
                     return this.ctrl.writer.createSaveLoadTextDocument(path, content);
                 })
+                .then((doc: vscode.TextDocument) => (mode === "off") ? doc : previous.then(previous => this.carryOverTasks(doc, date, previous, mode, scope)))
+                .then((doc: vscode.TextDocument) => resolve(doc))
+                .catch(error => {
+                    this.ctrl.logger.error("Failed to create entry " + path, error);
+                    reject(path);
+                });
+        });
+    }
+
+    /**
+     * The lists for the loops in the entry template: "openTasks" (the open tasks of the previous entry, each with 
+     * text and line) and "notes" (the notes of the day, each with title, link and path). 
+     *
+     * @param {string} path the path of the new entry
+     * @param {Date} date the date of the new entry
+     * @param {vscode.TextDocument | null} previous the previous entry (null if there is none or it isn't needed)
+     * @param {string} [scope] the scope of the entry (default if empty)
+     * @returns {Q.Promise<J.Util.TemplateContext>} the lists
+     * @memberof Writer
+     */
+    private getEntryTemplateContext(path: string, date: Date, previous: vscode.TextDocument | null, scope?: string): Q.Promise<J.Util.TemplateContext> {
+        let day: string = moment(date).format("YYYY-MM-DD");
+
+        // only the notes are taken from the index (the first scan of the journal might take a while)
+        let ready: Q.Promise<void> = this.ctrl.config.isUsedInEntryTemplate("notes", scope) ? this.ctrl.indexer.ready() : Q.resolve<void>(undefined);
+
+        return ready
+            .then(() => {
+                let openTasks = (previous === null) ? [] : this.getOpenTasks(previous).map(line => ({
+                    text: line.text.replace(/^\s*[-*+] \[.\] /, ""),
+                    line: line.text.trim()
+                }));
+
+                let notes = this.ctrl.indexer.getEntries(this.ctrl.config.getBasePath(scope))
+                    .filter(entry => entry.type === JournalPageType.NOTE && moment(entry.date).format("YYYY-MM-DD") === day)
+                    .map(entry => ({
+                        title: entry.title,
+                        link: encodeURI(Path.relative(Path.dirname(path), entry.path).split(Path.sep).join('/')),
+                        path: entry.path
+                    }));
+
+                return { openTasks: openTasks, notes: notes };
+            });
+    }
+
+    /**
+     * Copies (or moves) the open tasks of the most recent previous entry into the new entry. Tasks which are already 
+     * in the new entry (e.g. from the list "openTasks" in the entry template) are not added again. Moved tasks are 
+     * marked as migrated in the previous entry (e.g. "- [>] Task: call the bank → [2026-10-19](../19.md)").
+     * Failures are logged, the new entry is always returned.
+     *
+     * @param {vscode.TextDocument} doc the new entry
+     * @param {Date} date the date of the new entry
+     * @param {vscode.TextDocument | null} previous the most recent previous entry (see Reader.findPreviousEntry)
+     * @param {J.Extension.CarryOverMode} mode whether the tasks are copied or moved
+     * @param {string} [scope] the scope of the entry (default if empty)
+     * @returns {Q.Promise<vscode.TextDocument>} the new entry
+     * @memberof Writer
+     */
+    public carryOverTasks(doc: vscode.TextDocument, date: Date, previous: vscode.TextDocument | null, mode: J.Extension.CarryOverMode, scope?: string): Q.Promise<vscode.TextDocument> {
+        this.ctrl.logger.trace("Entering carryOverTasks() in ext/writer.ts for entry: ", doc.fileName);
+
+        if (mode === "off" || previous === null) return Q.resolve(doc);
+
+        let tasks: vscode.TextLine[] = this.getOpenTasks(previous);
+        if (tasks.length === 0) return Q.resolve(doc);
+
+        let text = (line: string): string | undefined => J.Util.parseTaskLine(line)?.text.trim();
+        let existing: (string | undefined)[] = [];
+        for (let i = 0; i < doc.lineCount; i++) existing.push(text(doc.lineAt(i).text));
+        let added: vscode.TextLine[] = tasks.filter(line => existing.indexOf(text(line.text)) < 0);
+
+        return Q.Promise<vscode.TextDocument>((resolve, reject) => {
+            let injected: Q.Promise<vscode.TextDocument> = (added.length === 0) ? Q.resolve(doc) :
+                this.ctrl.config.getTaskInlineTemplate(date, scope)
+                    .then((tpl: J.Extension.InlineTemplate) => {
+                        tpl.value = added.map(line => line.text).join('\n');
+                        return this.ctrl.inject.buildInlineString(doc, tpl);
+                    })
+                    .then(inlineString => this.ctrl.inject.injectInlineString(inlineString))
+                    .then((doc: vscode.TextDocument) => this.ctrl.ui.saveDocument(doc));
+
+            injected
+                .then((doc: vscode.TextDocument) => (mode === "move") ? this.markTasksAsMigrated(previous, tasks, doc, date).then(() => doc) : doc)
+                .then((doc: vscode.TextDocument) => resolve(doc))
+                .catch(error => {
+                    this.ctrl.logger.error("Failed to carry over open tasks.", error);
+                    resolve(doc);
+                })
+                .done();
+        });
+    }
+
+    /**
+     * Replaces the checkbox of the given tasks with "[>]" (deferred) and appends a link to the entry they have been moved to.
+     *
+     * @param {vscode.TextDocument} previous the entry with the tasks
+     * @param {vscode.TextLine[]} tasks the open tasks of the entry
+     * @param {vscode.TextDocument} target the entry the tasks have been moved to
+     * @param {Date} date the date of the target entry
+     * @returns {Q.Promise<vscode.TextDocument>} the updated (and saved) previous entry
+     * @memberof Writer
+     */
+    public markTasksAsMigrated(previous: vscode.TextDocument, tasks: vscode.TextLine[], target: vscode.TextDocument, date: Date): Q.Promise<vscode.TextDocument> {
+        let link: string = Path.relative(Path.dirname(previous.uri.fsPath), target.uri.fsPath).split(Path.sep).join('/');
+        let label: string = moment(date).format("YYYY-MM-DD");
+
+        let edit = new vscode.WorkspaceEdit();
+        tasks.forEach(line => {
+            let checkbox: number = this.getOpenTaskCheckbox(previous, line.lineNumber);
+            edit.replace(previous.uri, new vscode.Range(line.lineNumber, checkbox, line.lineNumber, checkbox + 3), "[>]");
+            edit.insert(previous.uri, line.range.end, " → [" + label + "](" + encodeURI(link) + ")");
+        });
+
+        return Q.Promise<vscode.TextDocument>((resolve, reject) => {
+            vscode.workspace.applyEdit(edit).then(applied => {
+                if (applied === true) {
+                    this.ctrl.ui.saveDocument(previous).then(resolve, reject);
+                } else {
+                    reject("Failed to mark tasks as migrated in " + previous.fileName);
+                }
+            }, reject);
+        });
+    }
+
+    /**
+     * Marks the open task in the given line as completed ("- [x] ...") and stamps the completion time.
+     *
+     * @param {vscode.TextDocument} doc the journal page with the task
+     * @param {number} line the line of the task
+     * @returns {Q.Promise<vscode.TextDocument>} the updated (and saved) document
+     * @memberof Writer
+     */
+    public completeTask(doc: vscode.TextDocument, line: number): Q.Promise<vscode.TextDocument> {
+        this.ctrl.logger.trace("Entering completeTask() in ext/writer.ts for document: ", doc.fileName);
+
+        if (this.getOpenTaskCheckbox(doc, line) < 0) {
+            return Q.reject<vscode.TextDocument>("No open task found in line " + (line + 1) + " of " + doc.fileName);
+        }
+
+        return this.toggleTasks(doc, [line])
+            .then((doc: vscode.TextDocument) => this.ctrl.ui.saveDocument(doc));
+    }
+
+    /**
+     * Flips the tasks in the given lines: open or in progress tasks ("- [ ]", "* []" or "- [/]") are completed and 
+     * stamped with the completion time ("- [x] Task: call the bank ✓ 14:32"), completed tasks are reopened (and the 
+     * stamp is removed). Cancelled and deferred tasks and lines without a task are ignored. 
+     *
+     * @param {vscode.TextDocument} doc the document with the tasks
+     * @param {number[]} lines the lines to toggle
+     * @returns {Q.Promise<vscode.TextDocument>} the updated document (not saved)
+     * @memberof Writer
+     */
+    public toggleTasks(doc: vscode.TextDocument, lines: number[]): Q.Promise<vscode.TextDocument> {
+        this.ctrl.logger.trace("Entering toggleTasks() in ext/writer.ts for document: ", doc.fileName);
+
+        return this.changeTaskStates(doc, lines, (state: string) => {
+            if (state === "x") return " ";
+            if (state === " " || state === "/") return "x";
+            return state;
+        });
+    }
+
+    /**
+     * Moves the tasks in the given lines to their next state: open ("[ ]") → in progress ("[/]") → completed ("[x]") 
+     * → cancelled ("[-]") → deferred ("[>]") → open. Completed tasks are stamped with the completion time (see toggleTasks). 
+     *
+     * @param {vscode.TextDocument} doc the document with the tasks
+     * @param {number[]} lines the lines with the tasks
+     * @returns {Q.Promise<vscode.TextDocument>} the updated document (not saved)
+     * @memberof Writer
+     */
+    public cycleTasks(doc: vscode.TextDocument, lines: number[]): Q.Promise<vscode.TextDocument> {
+        this.ctrl.logger.trace("Entering cycleTasks() in ext/writer.ts for document: ", doc.fileName);
+
+        return this.changeTaskStates(doc, lines, (state: string) => 
+            J.Util.TASK_STATES[(J.Util.TASK_STATES.indexOf(state) + 1) % J.Util.TASK_STATES.length]);
+    }
+
+    /**
+     * Replaces the checkboxes of the tasks in the given lines with the state computed by the given function, 
+     * and adds (or removes) the completion stamp if a task is (or is no longer) completed. 
+     */
+    private changeTaskStates(doc: vscode.TextDocument, lines: number[], next: (state: string) => string): Q.Promise<vscode.TextDocument> {
+        return this.ctrl.config.getTimeStringTemplate(new Date())
+            .then((tpl: J.Extension.InlineTemplate) => {
+                let edit = new vscode.WorkspaceEdit();
+
+                lines.forEach(line => {
+                    let text: string = doc.lineAt(line).text;
+                    let task: J.Util.TaskLine | undefined = J.Util.parseTaskLine(text);
+                    if (task === undefined) return;
+
+                    let state: string = task.state;
+                    let nextState: string = next(state);
+                    if (nextState === state) return;
+
+                    let checkbox: vscode.Range = new vscode.Range(line, task.bullet.length, line, task.bullet.length + task.checkbox.length);
+                    let stamp: number = text.search(/\s+✓ .*$/);
+
+                    edit.replace(doc.uri, checkbox, "[" + nextState + "]");
+                    if (state === "x" && stamp >= 0) {
+                        edit.delete(doc.uri, new vscode.Range(line, stamp, line, text.length));
+                    } else if (nextState === "x") {
+                        edit.insert(doc.uri, new vscode.Position(line, text.trimRight().length), " ✓ " + tpl.value);
+                    }
+                });
+                return vscode.workspace.applyEdit(edit);
+            })
+            .then((applied: boolean) => {
+                if (applied !== true) throw new Error("Failed to update tasks in " + doc.fileName);
+                return doc;
+            });
+    }
+
+    /**
+     * Returns the position of the checkbox ("[ ]" or "[/]") of the open task in the given line, or -1 if the line is 
+     * no open task (the document might have changed since it has been scanned).
+     */
+    public getOpenTaskCheckbox(doc: vscode.TextDocument, line: number): number {
+        if (line < 0 || line >= doc.lineCount) return -1;
+
+        let task: J.Util.TaskLine | undefined = J.Util.parseTaskLine(doc.lineAt(line).text);
+        return (task === undefined || (task.state !== " " && task.state !== "/")) ? -1 : task.bullet.length;
+    }
+
+    /**
+     * Returns the lines with open or in progress tasks ("- [ ] ..." or "- [/] ...") in the given document
+     */
+    private getOpenTasks(doc: vscode.TextDocument): vscode.TextLine[] {
+        let tasks: vscode.TextLine[] = [];
+        for (let i = 0; i < doc.lineCount; i++) {
+            let line: vscode.TextLine = doc.lineAt(i);
+            if (this.getOpenTaskCheckbox(doc, i) >= 0) tasks.push(line);
+        }
+        return tasks;
+    }
+
+    /**
+     * Replaces the given ranges (or inserts at empty ranges) in the editor with the text, used by the print commands. 
+     *
+     * @param {vscode.TextEditor} editor the active editor
+     * @param {vscode.Range[]} ranges the selections or positions to print at
+     * @param {string} text the text to print
+     * @returns {Q.Promise<vscode.TextEditor>} the editor
+     * @memberof Writer
+     */
+    public printText(editor: vscode.TextEditor, ranges: vscode.Range[], text: string): Q.Promise<vscode.TextEditor> {
+        this.ctrl.logger.trace("Entering printText() in ext/writer.ts for document: ", editor.document.fileName);
+
+        return Q.Promise<vscode.TextEditor>((resolve, reject) => {
+            editor.edit(editBuilder => ranges.forEach(range => editBuilder.replace(range, text)))
+                .then(applied => {
+                    if (applied === true) {
+                        resolve(editor);
+                    } else {
+                        reject("Failed to print into " + editor.document.fileName);
+                    }
+                }, reject);
+        });
+    }
+
+    /**
+     * Replaces the text of the given line (e.g. to close a time tracking line)
+     *
+     * @param {vscode.TextDocument} doc the document
+     * @param {number} line the line to replace
+     * @param {string} text the new text of the line
+     * @returns {Q.Promise<vscode.TextDocument>} the updated document (not saved)
+     * @memberof Writer
+     */
+    public replaceLine(doc: vscode.TextDocument, line: number, text: string): Q.Promise<vscode.TextDocument> {
+        this.ctrl.logger.trace("Entering replaceLine() in ext/writer.ts for document: ", doc.fileName);
+
+        let edit = new vscode.WorkspaceEdit();
+        edit.replace(doc.uri, doc.lineAt(line).range, text);
+
+        return Q.Promise<vscode.TextDocument>((resolve, reject) => {
+            vscode.workspace.applyEdit(edit).then(applied => {
+                if (applied === true) {
+                    resolve(doc);
+                } else {
+                    reject("Failed to update line " + (line + 1) + " in " + doc.fileName);
+                }
+            }, reject);
+        });
+    }
+
+    /**
+     * Renames the tag in the given journal pages. The changes are shown in the refactor preview, where 
+     * they can be reviewed (and deselected) before they are applied. Changed pages are saved. 
+     *
+     * @param {string[]} paths the journal pages using the tag
+     * @param {string} tag the current name of the tag (without "#")
+     * @param {string} name the new name of the tag (without "#")
+     * @returns {Q.Promise<vscode.TextDocument[]>} the updated documents (empty, if the preview has been discarded)
+     * @memberof Writer
+     */
+    public renameTag(paths: string[], tag: string, name: string): Q.Promise<vscode.TextDocument[]> {
+        this.ctrl.logger.trace("Entering renameTag() in ext/writer.ts for tag: ", tag);
+
+        let label: string = "Rename #" + tag + " to #" + name;
+
+        return Q.all(paths.map(path => this.ctrl.ui.openDocument(path)))
+            .then((docs: vscode.TextDocument[]) => {
+                let edit = new vscode.WorkspaceEdit();
+                let changed: vscode.TextDocument[] = [];
+
+                docs.forEach(doc => {
+                    let count: number = 0;
+                    for (let line = 0; line < doc.lineCount; line++) {
+                        J.Util.findTags(doc.lineAt(line).text)
+                            .filter(match => match.tag === tag)
+                            .forEach(match => {
+                                let range = new vscode.Range(line, match.index, line, match.index + match.length);
+                                edit.replace(doc.uri, range, "#" + name, { label: label, needsConfirmation: true });
+                                count++;
+                            });
+                    }
+                    if (count > 0) changed.push(doc);
+                });
+
+                if (changed.length === 0) return Q.resolve<vscode.TextDocument[]>([]);
+
+                return Q.Promise<vscode.TextDocument[]>((resolve, reject) => {
+                    vscode.workspace.applyEdit(edit).then(applied => {
+                        if (applied !== true) return resolve([]);
+
+                        Q.all(changed.filter(doc => doc.isDirty).map(doc => this.ctrl.ui.saveDocument(doc)))
+                            .then(() => resolve(changed), reject);
+                    }, reject);
+                });
+            });
+    }
+
+    /**
+     * Writes the content into the file (which is created or replaced), e.g. for exported reports. 
+     *
+     * @param {string} path the path of the file
+     * @param {string} content the content of the file
+     * @returns {Q.Promise<string>} the path
+     * @memberof Writer
+     */
+    public writeFile(path: string, content: string): Q.Promise<string> {
+        this.ctrl.logger.trace("Entering writeFile() in ext/writer.ts for path: ", path);
+
+        return Q.Promise<string>((resolve, reject) => {
+            fs.writeFile(path, content, 'utf-8', error => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(path);
+                }
+            });
+        });
+    }
+
+    /**
+     * Creates and saves a new file (with the configured week or month template) for a weekly or monthly page
+     *
+     * @param {string} path
+     * @param {Date} date any date within the period
+     * @param {JournalPageType} type either WEEK or MONTH
+     * @param {string} [scope] the scope of the page (default if empty)
+     * @returns {Q.Promise<vscode.TextDocument>}
+     * @memberof Writer
+     */
+    public createPeriodPageForPath(path: string, date: Date, type: JournalPageType, scope?: string): Q.Promise<vscode.TextDocument> {
+        this.ctrl.logger.trace("Entering createPeriodPageForPath() in ext/writer.ts for path: ", path);
+
+        return Q.Promise<vscode.TextDocument>((resolve, reject) => {
+            let tpl: Q.Promise<J.Extension.HeaderTemplate> = (type === JournalPageType.WEEK) ?
+                this.ctrl.config.getWeekTemplate(date, scope) :
+                this.ctrl.config.getMonthTemplate(date, scope);
+
+            tpl
+                .then((tpl: J.Extension.HeaderTemplate) => this.ctrl.writer.createSaveLoadTextDocument(path, tpl.value || ""))
                 .then((doc: vscode.TextDocument) => resolve(doc))
                 .catch(() => reject(path));
         });
@@ -0,0 +1,185 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import * as Path from 'path';
+import * as Q from 'q';
+import * as J from '../.';
+import moment = require('moment');
+import { SCOPE_DEFAULT } from './conf';
+
+/**
+ * Messages sent by the script of the webview
+ */
+interface CalendarMessage {
+    command: "ready" | "open" | "navigate" | "today" | "scope";
+    /** the day to open ("YYYY-MM-DD") */
+    date?: string;
+    /** number of months to move */
+    offset?: number;
+    scope?: string;
+}
+
+/**
+ * Month grid of the journal in a webview (command "journal.calendar"). Days with an entry are marked and show 
+ * the number of notes and open tasks, selecting a day opens (or creates) its entry. The script of the webview 
+ * (res/scripts/calendar.js) renders the grid and handles the keyboard navigation. 
+ */
+export class Calendar implements vscode.Disposable {
+
+    private panel: vscode.WebviewPanel | undefined;
+    private month: Date = new Date();
+    private scope: string = SCOPE_DEFAULT;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(public ctrl: J.Util.Ctrl, private extensionPath: string) {
+    }
+
+    /**
+     * Opens the calendar (of the current month) or brings it to the front
+     */
+    public show(): Q.Promise<void> {
+        this.ctrl.logger.trace("Entering show() in ext/calendar.ts");
+
+        return Q.Promise<void>((resolve, reject) => {
+            try {
+                if (this.panel !== undefined) {
+                    this.panel.reveal();
+                    resolve();
+                    return;
+                }
+
+                let resources: vscode.Uri = vscode.Uri.file(Path.join(this.extensionPath, "res"));
+                this.panel = vscode.window.createWebviewPanel("journal.calendar", "Journal Calendar", vscode.ViewColumn.Active, {
+                    enableScripts: true,
+                    localResourceRoots: [resources]
+                });
+
+                this.month = new Date();
+                this.panel.webview.html = this.getHtml(this.panel.webview);
+                this.panel.webview.onDidReceiveMessage((message: CalendarMessage) => this.receive(message), null, this.disposables);
+                this.panel.onDidDispose(() => {
+                    this.panel = undefined;
+                    this.disposables.forEach(disposable => disposable.dispose());
+                    this.disposables = [];
+                });
+
+                // the counters are updated whenever a journal page changes
+                this.disposables.push(this.ctrl.indexer.onDidChange(() => this.update().done()));
+                resolve();
+
+            } catch (error) {
+                reject(error);
+            }
+        });
+    }
+
+    public dispose(): void {
+        if (this.panel !== undefined) this.panel.dispose();
+    }
+
+    private receive(message: CalendarMessage): void {
+        switch (message.command) {
+            case "open":
+                this.open(moment(message.date, "YYYY-MM-DD").toDate())
+                    .catch(error => {
+                        this.ctrl.logger.error("Failed to open entry from calendar.", error);
+                        vscode.window.showErrorMessage("Failed to open the journal entry for " + message.date);
+                    })
+                    .done();
+                return;
+            case "navigate":
+                this.month = moment(this.month).add(message.offset || 0, 'months').toDate();
+                break;
+            case "today":
+                this.month = new Date();
+                break;
+            case "scope":
+                if (this.ctrl.config.getScopes().indexOf(message.scope!) >= 0) this.scope = message.scope!;
+                break;
+        }
+        this.update().done();
+    }
+
+    /**
+     * Opens the entry of the day (next to the calendar)
+     */
+    private open(date: Date): Q.Promise<vscode.TextEditor> {
+        return this.ctrl.reader.loadEntryForDate(date, this.scope)
+            .then((doc: vscode.TextDocument) => vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside, false));
+    }
+
+    /**
+     * Sends the days of the current month (with entries, notes and tasks) to the webview
+     */
+    private update(): Q.Promise<void> {
+        if (this.panel === undefined) return Q.resolve<void>(undefined);
+        this.ctrl.logger.trace("Entering update() in ext/calendar.ts");
+
+        moment.locale(this.ctrl.config.getLocale());
+
+        let weeks: J.Util.CalendarDay[][] = J.Util.buildCalendarMonth(this.month, moment.localeData().firstDayOfWeek(), new Date());
+
+        return this.ctrl.reader.getCalendarDays(weeks, this.scope)
+            .then((weeks: J.Util.CalendarDay[][]) => {
+                if (this.panel === undefined) return;
+
+                let weekdays: string[] = weeks[0].map(day => moment(day.date, "YYYY-MM-DD").format("dd"));
+                this.panel.webview.postMessage({
+                    command: "update",
+                    title: moment(this.month).format("MMMM YYYY"),
+                    scope: this.scope,
+                    scopes: this.ctrl.config.getScopes(),
+                    weekdays: weekdays,
+                    weeks: weeks
+                });
+            })
+            .catch(error => this.ctrl.logger.error("Failed to update the calendar.", error));
+    }
+
+    private getHtml(webview: vscode.Webview): string {
+        let script: vscode.Uri = webview.asWebviewUri(vscode.Uri.file(Path.join(this.extensionPath, "res", "scripts", "calendar.js")));
+        let style: vscode.Uri = webview.asWebviewUri(vscode.Uri.file(Path.join(this.extensionPath, "res", "styles", "calendar.css")));
+        let nonce: string = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join("");
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <link href="${style}" rel="stylesheet">
+    <title>Journal Calendar</title>
+</head>
+<body>
+    <header>
+        <button id="previous" title="Previous month (Page Up)">&lsaquo;</button>
+        <h1 id="title"></h1>
+        <button id="next" title="Next month (Page Down)">&rsaquo;</button>
+        <button id="today" title="Today (T)">Today</button>
+        <select id="scope" title="Scope"></select>
+    </header>
+    <table id="calendar" role="grid"></table>
+    <p class="legend">Arrow keys move between days, Enter opens the entry of the selected day.</p>
+    <script nonce="${nonce}" src="${script}"></script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,266 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import * as Q from 'q';
+import * as J from '../.';
+import moment = require('moment');
+import { isNullOrUndefined } from 'util';
+
+/**
+ * The running timer, stored in the global state of the extension (survives reloads of the window)
+ */
+interface ClockState {
+    /** path of the journal entry with the tracking line */
+    path: string;
+    /** the open tracking line, e.g. "09:00- |  | #clientA | standup" */
+    line: string;
+    /** start time in milliseconds */
+    start: number;
+    description: string;
+    tags: string[];
+    scope: string;
+}
+
+const STATE_KEY: string = "journal.clock";
+
+// a timer started on a previous day and running for longer has been forgotten, it is closed at midnight
+const MAX_DURATION_MS: number = 12 * 60 * 60 * 1000;
+
+const TIME_FORMAT: string = "HH:mm";
+
+
+/**
+ * Time tracking with the commands "journal.clockIn" and "journal.clockOut". Clocking in adds an open tracking 
+ * line (like the snippet "track") to today's entry, clocking out adds the end time and the duration. The running 
+ * timer is shown in the status bar. 
+ */
+export class Clock implements vscode.Disposable {
+
+    private item: vscode.StatusBarItem;
+    private timer: NodeJS.Timer | undefined;
+    private failed: number | undefined;
+
+    constructor(public ctrl: J.Util.Ctrl, private state: vscode.Memento) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this.item.command = "journal.clockOut";
+    }
+
+    /**
+     * Shows the timer of a previous session in the status bar, or closes it if it has been forgotten
+     */
+    public restore(): Q.Promise<void> {
+        this.ctrl.logger.trace("Entering restore() in ext/clock.ts");
+
+        return Q.fcall(() => this.update());
+    }
+
+    /**
+     * Clocks in: adds an open tracking line to today's entry (of the scope given in the value, e.g. "#work standup #clientA") 
+     * and starts the timer. A running timer is clocked out first. 
+     *
+     * @param {string} [value] description and tags, asked for if empty
+     * @returns {Q.Promise<vscode.TextDocument>} the entry with the tracking line
+     * @memberof Clock
+     */
+    public clockIn(value?: string): Q.Promise<vscode.TextDocument> {
+        this.ctrl.logger.trace("Entering clockIn() in ext/clock.ts");
+
+        let input: J.Model.Input;
+        let start: Date;
+
+        let description: Q.Promise<string> = (isNullOrUndefined(value) || value!.trim().length === 0) ?
+            this.ctrl.ui.getUserInput("Clock in (description and #tags, e.g. standup #clientA)") :
+            Q.resolve(value!);
+
+        return description
+            .then((value: string) => {
+                input = this.ctrl.parser.parseTrackInput(value);
+                return this.closeForgottenTimer();
+            })
+            .then(() => (this.getState() !== undefined) ? this.clockOut() : null)
+            .then(() => {
+                start = new Date();
+                return this.ctrl.reader.loadEntryForDate(start, input.scope);
+            })
+            .then((doc: vscode.TextDocument) => {
+                return this.ctrl.config.getTrackInlineTemplate(start, input.scope)
+                    .then((tpl: J.Extension.InlineTemplate) => {
+                        tpl.value = this.renderLine(tpl.value!, start, null, input.tags, input.text);
+                        return this.ctrl.inject.buildInlineString(doc, tpl);
+                    })
+                    .then(inlineString => {
+                        let line: string = inlineString.value.trim();
+                        return this.ctrl.inject.injectInlineString(inlineString)
+                            .then((doc: vscode.TextDocument) => this.ctrl.ui.saveDocument(doc))
+                            .then((doc: vscode.TextDocument) => this.setState({
+                                path: doc.uri.fsPath,
+                                line: line,
+                                start: start.getTime(),
+                                description: input.text,
+                                tags: input.tags,
+                                scope: input.scope
+                            }).then(() => doc));
+                    });
+            })
+            .then((doc: vscode.TextDocument) => {
+                this.update();
+                return doc;
+            });
+    }
+
+    /**
+     * Clocks out: adds the end time and the duration to the tracking line of the running timer. A forgotten timer 
+     * (started on a previous day more than 12 hours ago) is closed at midnight. 
+     *
+     * @returns {Q.Promise<vscode.TextDocument | null>} the entry with the tracking line, or null if no timer is running
+     * @memberof Clock
+     */
+    public clockOut(): Q.Promise<vscode.TextDocument | null> {
+        this.ctrl.logger.trace("Entering clockOut() in ext/clock.ts");
+
+        let state: ClockState | undefined = this.getState();
+        if (state === undefined) {
+            vscode.window.showInformationMessage("You are not clocked in.");
+            return Q.resolve(null);
+        }
+
+        return this.isForgotten(state) ? this.closeForgottenTimer() : this.close(state, new Date());
+    }
+
+    public dispose(): void {
+        if (this.timer !== undefined) clearInterval(this.timer);
+        this.item.dispose();
+    }
+
+    /**
+     * Closes the running timer if it has been forgotten (it ends at midnight of the day it has been started) 
+     * and notifies the user. 
+     */
+    private closeForgottenTimer(): Q.Promise<vscode.TextDocument | null> {
+        let state: ClockState | undefined = this.getState();
+        if (state === undefined || !this.isForgotten(state)) return Q.resolve(null);
+
+        let midnight: Date = moment(state.start).add(1, 'day').startOf('day').toDate();
+        return this.close(state, midnight)
+            .then((doc: vscode.TextDocument) => {
+                vscode.window.showWarningMessage("The timer for '" + state!.description + "' has been running since " +
+                    moment(state!.start).format("LLL") + ", it has been stopped at midnight. Please check the end time.");
+                return doc;
+            });
+    }
+
+    /**
+     * Replaces the open tracking line with the closed line (with end time and duration) and stops the timer. 
+     * If this fails (e.g. the line can't be found anymore), the timer keeps running to not lose the start time. 
+     */
+    private close(state: ClockState, end: Date): Q.Promise<vscode.TextDocument> {
+        let start: Date = new Date(state.start);
+
+        return this.ctrl.ui.openDocument(state.path)
+            .then((doc: vscode.TextDocument) => {
+                let line: number = -1;
+                for (let i = 0; i < doc.lineCount && line < 0; i++) {
+                    if (doc.lineAt(i).text.trim() === state.line) line = i;
+                }
+                if (line < 0) {
+                    throw new Error("The tracking line '" + state.line + "' has been changed in " + doc.fileName + ", please restore it to clock out.");
+                }
+
+                return this.ctrl.config.getTrackInlineTemplate(start, state.scope)
+                    .then((tpl: J.Extension.InlineTemplate) => this.ctrl.writer.replaceLine(doc, line,
+                        this.renderLine(tpl.value!, start, end, state.tags, state.description)))
+                    .then((doc: vscode.TextDocument) => this.ctrl.ui.saveDocument(doc));
+            })
+            .then((doc: vscode.TextDocument) => this.setState(undefined).then(() => {
+                this.update();
+                return doc;
+            }));
+    }
+
+    /**
+     * Fills the variables of the tracking line template, end and duration are empty for a running timer
+     */
+    private renderLine(template: string, start: Date, end: Date | null, tags: string[], description: string): string {
+        let duration: string = "";
+        if (end !== null) {
+            let minutes: number = J.Util.computeDuration(moment(start).hours() * 60 + moment(start).minutes(), moment(end).hours() * 60 + moment(end).minutes());
+            duration = J.Util.formatDuration(minutes, this.ctrl.config.getDurationFormat());
+        }
+
+        return template
+            .split("${start}").join(moment(start).format(TIME_FORMAT))
+            .split("${end}").join((end !== null) ? moment(end).format(TIME_FORMAT) : "")
+            .split("${duration}").join(duration)
+            .split("${tags}").join(tags.join(" "))
+            .split("${input}").join(description);
+    }
+
+    /**
+     * Updates the status bar item with the description and the elapsed time of the running timer (every minute)
+     */
+    private update(): void {
+        let state: ClockState | undefined = this.getState();
+
+        if (state === undefined) {
+            if (this.timer !== undefined) clearInterval(this.timer);
+            this.timer = undefined;
+            this.item.hide();
+            return;
+        }
+
+        // a forgotten timer which couldn't be stopped is shown until the user clocks out (instead of retrying every minute)
+        if (this.isForgotten(state) && this.failed !== state.start) {
+            let start: number = state.start;
+            this.closeForgottenTimer()
+                .catch(error => {
+                    this.failed = start;
+                    this.ctrl.logger.error("Failed to stop the forgotten timer.", error);
+                    this.update();
+                })
+                .done();
+            return;
+        }
+
+        let elapsed: number = Math.floor((Date.now() - state.start) / 60000);
+        this.item.text = "$(watch) " + (state.description || state.tags.join(" ")) + " " + J.Util.formatDuration(elapsed, "hh:mm");
+        this.item.tooltip = "Clocked in since " + moment(state.start).format(TIME_FORMAT) + " " + state.tags.join(" ") + " (click to clock out)";
+        this.item.show();
+
+        if (this.timer === undefined) {
+            this.timer = setInterval(() => this.update(), 60000);
+        }
+    }
+
+    private isForgotten(state: ClockState): boolean {
+        return !moment(state.start).isSame(moment(), 'day') && (Date.now() - state.start) > MAX_DURATION_MS;
+    }
+
+    private getState(): ClockState | undefined {
+        return this.state.get<ClockState>(STATE_KEY);
+    }
+
+    private setState(state: ClockState | undefined): Q.Promise<void> {
+        return Q.Promise<void>((resolve, reject) => {
+            this.state.update(STATE_KEY, state).then(() => resolve(), reject);
+        });
+    }
+
+}
@@ -19,16 +19,34 @@
 'use strict';
 
 import * as moment from 'moment';
+import * as Path from 'path';
 import * as Q from 'q';
 import { isError, isNullOrUndefined, isString } from 'util';
 import * as vscode from 'vscode';
 import * as J from '../.';
 import { SelectedInput, NoteInput } from '../model/input';
+import { JournalPageType } from './conf';
+import { TaskEntry, SearchHit, FileEntry } from '../actions/reader';
 
 export interface Commands {
     processInput(): Q.Promise<vscode.TextEditor | null>;
     showNote(): Q.Promise<vscode.TextEditor | null>;
     showEntry(offset: number): Q.Promise<vscode.TextEditor>;
+    showPeriod(type: JournalPageType): Q.Promise<vscode.TextEditor>;
+    showOverdueTasks(): Q.Promise<vscode.TextEditor | null>;
+    search(): Q.Promise<vscode.TextEditor | null>;
+    renameTag(tag?: string): Q.Promise<vscode.TextDocument[] | null>;
+    showOnThisDay(): Q.Promise<vscode.TextEditor>;
+    toggleTask(): Q.Promise<vscode.TextDocument | null>;
+    cycleTask(): Q.Promise<vscode.TextDocument | null>;
+    openTask(task: TaskEntry): Q.Promise<vscode.TextEditor>;
+    completeTask(task: TaskEntry): Q.Promise<vscode.TextDocument>;
+    rescheduleTask(task: TaskEntry): Q.Promise<vscode.TextDocument | null>;
+    printTime(): Q.Promise<vscode.TextEditor | null>;
+    printDuration(): Q.Promise<vscode.TextEditor | null>;
+    printSum(): Q.Promise<vscode.TextEditor | null>;
+    showTimesheet(): Q.Promise<vscode.TextEditor | null>;
+    exportTimesheet(): Q.Promise<vscode.Uri | null>;
     loadJournalWorkspace(): Q.Promise<void>;
 
     //editJournalConfiguration(): Thenable<vscode.TextEditor>
@@ -48,16 +66,17 @@ export class JournalCommands implements Commands {
      * 
      * Update: supports much more now
      */
-    public processInput(): Q.Promise<vscode.TextEditor> {
+    public processInput(): Q.Promise<vscode.TextEditor | null> {
 
 
         this.ctrl.logger.trace("Entering processInput() in ext/commands.ts");
 
-        let deferred: Q.Deferred<vscode.TextEditor> = Q.defer<vscode.TextEditor>();
+        let deferred: Q.Deferred<vscode.TextEditor | null> = Q.defer<vscode.TextEditor | null>();
         this.ctrl.ui.getUserInputWithValidation()
-            .then((input: J.Model.Input) => this.loadPageForInput(input))
-            .then((document: vscode.TextDocument) => this.ctrl.ui.showDocument(document))
-            .then((editor: vscode.TextEditor) => deferred.resolve(editor))
+            .then((input: J.Model.Input) =>
+                this.loadPageForInput(input)
+                    .then((document: vscode.TextDocument) => this.showPageForInput(input, document)))
+            .then((editor: vscode.TextEditor | null) => deferred.resolve(editor))
             .catch((error: any) => {
                 if (error !== 'cancel') {
                     this.ctrl.logger.error("Failed to process input.", error);
@@ -120,6 +139,33 @@ export class JournalCommands implements Commands {
     }
 
 
+    /**
+     * Implements commands "week" and "month", opens the page for the current week or month (no input box appears)
+     * @param type either WEEK or MONTH
+     */
+    public showPeriod(type: JournalPageType): Q.Promise<vscode.TextEditor> {
+        this.ctrl.logger.trace("Entering showPeriod() in ext/commands.ts");
+
+        var deferred: Q.Deferred<vscode.TextEditor> = Q.defer<vscode.TextEditor>();
+
+        let input = new J.Model.Input();
+        input.offset = 0;
+        input.type = type;
+
+        this.loadPageForInput(input)
+            .then((doc: vscode.TextDocument) => this.ctrl.ui.showDocument(doc))
+            .then((editor: vscode.TextEditor) => deferred.resolve(editor))
+            .catch((error: any) => {
+                if (error !== 'cancel') {
+                    this.ctrl.logger.error("Failed to get file, Reason: ", error);
+                }
+                deferred.reject(error);
+            })
+            .done();
+
+        return deferred.promise;
+    }
+
 
     /**
      * Creates a new file in a subdirectory with the current day of the month as name.
@@ -133,16 +179,21 @@ export class JournalCommands implements Commands {
 
         var deferred: Q.Deferred<vscode.TextEditor | null> = Q.defer<vscode.TextEditor | null>();
 
+        let input: J.Model.Input;
+
         this.ctrl.ui.getUserInput("Enter title for new note")
             .then((inputString: string) => this.ctrl.parser.parseInput(inputString))
-            .then((input: J.Model.Input) =>
-                Q.all([
+            .then((parsed: J.Model.Input) => {
+                input = parsed;
+                return Q.all([
                     this.ctrl.parser.resolveNotePathForInput(input),
                     this.ctrl.inject.buildNoteContent(input)
-                ])
-            )
+                ]);
+            })
             .then(([path, content]) =>
                 this.ctrl.reader.loadNote(path, content))
+            .then((doc: vscode.TextDocument) =>
+                this.linkNote(doc, input))
             .then((doc: vscode.TextDocument) =>
                 this.ctrl.ui.showDocument(doc))
             .then((editor: vscode.TextEditor) => {
@@ -167,6 +218,433 @@ export class JournalCommands implements Commands {
     }
 
 
+    /**
+     * Called by command 'Journal:overdue'. Lists the open tasks of the journal which are past their due date 
+     * (most overdue first) and opens the selected task. 
+     *
+     * @returns {Q.Promise<vscode.TextEditor | null>} the editor with the task, or null if canceled
+     * @memberof JournalCommands
+     */
+    public showOverdueTasks(): Q.Promise<vscode.TextEditor | null> {
+        this.ctrl.logger.trace("Entering showOverdueTasks() in ext/commands.ts");
+
+        var deferred: Q.Deferred<vscode.TextEditor | null> = Q.defer<vscode.TextEditor | null>();
+
+        this.ctrl.reader.getOpenTasks(this.ctrl.ui.getBaseDirectories())
+            .then((tasks: TaskEntry[]) => {
+                let overdue: TaskEntry[] = tasks
+                    .filter(task => J.Util.isOverdue(task))
+                    .sort((a, b) => (a.due!.getTime() - b.due!.getTime()) || ((a.priority || 4) - (b.priority || 4)));
+
+                if (overdue.length === 0) {
+                    vscode.window.showInformationMessage("There are no overdue tasks in your journal.");
+                    throw "cancel";
+                }
+                return this.ctrl.ui.pickTask(overdue, "Overdue tasks (" + overdue.length + ")");
+            })
+            .then((task: TaskEntry) => this.openTask(task))
+            .then((editor: vscode.TextEditor) => deferred.resolve(editor))
+            .catch((error: any) => {
+                if (error !== 'cancel') {
+                    this.ctrl.logger.error("Failed to show overdue tasks.", error);
+                    deferred.reject(error);
+                } else {
+                    deferred.resolve(null);
+                }
+            })
+            .done();
+
+        return deferred.promise;
+    }
+
+    /**
+     * Called by command 'Journal:search'. Searches the entries and notes of all scopes while typing and opens 
+     * the selected hit at its line. 
+     *
+     * @returns {Q.Promise<vscode.TextEditor | null>} the editor with the journal page, or null if canceled
+     * @memberof JournalCommands
+     */
+    public search(): Q.Promise<vscode.TextEditor | null> {
+        this.ctrl.logger.trace("Entering search() in ext/commands.ts");
+
+        var deferred: Q.Deferred<vscode.TextEditor | null> = Q.defer<vscode.TextEditor | null>();
+
+        this.ctrl.ui.pickSearchHit()
+            .then((hit: SearchHit) => this.ctrl.ui.openDocument(hit.path)
+                .then((doc: vscode.TextDocument) => this.ctrl.ui.showDocumentAtLine(doc, hit.line)))
+            .then((editor: vscode.TextEditor) => deferred.resolve(editor))
+            .catch((error: any) => {
+                if (error !== 'cancel') {
+                    this.ctrl.logger.error("Failed to open search result.", error);
+                    deferred.reject(error);
+                } else {
+                    deferred.resolve(null);
+                }
+            })
+            .done();
+
+        return deferred.promise;
+    }
+
+    /**
+     * Called by command 'Journal:onThisDay'. Opens a report with excerpts of (and links to) the journal entries 
+     * of one week, one month and six months ago and of this day in every previous year. 
+     *
+     * @returns {Q.Promise<vscode.TextEditor>} the editor with the report (not saved)
+     * @memberof JournalCommands
+     */
+    public showOnThisDay(): Q.Promise<vscode.TextEditor> {
+        this.ctrl.logger.trace("Entering showOnThisDay() in ext/commands.ts");
+
+        var deferred: Q.Deferred<vscode.TextEditor> = Q.defer<vscode.TextEditor>();
+        let today: Date = new Date();
+
+        this.ctrl.reader.getRetrospective(today)
+            .then((entries: J.Util.RetrospectiveEntry[]) => {
+                moment.locale(this.ctrl.config.getLocale());
+                let report: string = J.Util.buildRetrospectiveReport(today, entries);
+
+                return Q.Promise<vscode.TextEditor>((resolve, reject) => {
+                    vscode.workspace.openTextDocument({ language: "markdown", content: report })
+                        .then(doc => vscode.window.showTextDocument(doc))
+                        .then(editor => resolve(editor), error => reject(error));
+                });
+            })
+            .then((editor: vscode.TextEditor) => deferred.resolve(editor))
+            .catch((error: any) => {
+                this.ctrl.logger.error("Failed to show the entries of this day.", error);
+                deferred.reject(error);
+            })
+            .done();
+
+        return deferred.promise;
+    }
+
+    /**
+     * Called by command 'Journal:renameTag'. Renames the tag in all journal pages (the changes are previewed
+     * before they are applied). 
+     *
+     * @param {string} [tag] the tag to rename (without "#"), the user picks one if not given
+     * @returns {Q.Promise<vscode.TextDocument[] | null>} the changed pages, or null if canceled
+     * @memberof JournalCommands
+     */
+    public renameTag(tag?: string): Q.Promise<vscode.TextDocument[] | null> {
+        this.ctrl.logger.trace("Entering renameTag() in ext/commands.ts");
+
+        var deferred: Q.Deferred<vscode.TextDocument[] | null> = Q.defer<vscode.TextDocument[] | null>();
+
+        this.ctrl.indexer.ready()
+            .then(() => {
+                let tags: Map<string, FileEntry[]> = this.ctrl.indexer.getTags();
+                if (tags.size === 0) throw "There are no tags in your journal.";
+
+                return (isNullOrUndefined(tag) ? this.ctrl.ui.pickTag(tags, "Select the tag to rename") : Q.resolve(tag!))
+                    .then((selected: string) => this.ctrl.ui.getTagName(selected)
+                        .then((name: string) => {
+                            let paths: string[] = (tags.get(selected) || []).map(entry => entry.path);
+                            return this.ctrl.writer.renameTag(paths, selected, name)
+                                .then((docs: vscode.TextDocument[]) => {
+                                    if (docs.length > 0) {
+                                        vscode.window.showInformationMessage("Renamed #" + selected + " to #" + name + " in " + docs.length + (docs.length === 1 ? " page." : " pages."));
+                                    }
+                                    return docs;
+                                });
+                        }));
+            })
+            .then((docs: vscode.TextDocument[]) => deferred.resolve(docs))
+            .catch((error: any) => {
+                if (error !== 'cancel') {
+                    this.ctrl.logger.error("Failed to rename tag.", error);
+                    deferred.reject(error);
+                } else {
+                    deferred.resolve(null);
+                }
+            })
+            .done();
+
+        return deferred.promise;
+    }
+
+    /**
+     * Called by command 'Journal:toggleTask'. Completes (or reopens) the task under the cursor, or all tasks 
+     * within the selections of the active editor. 
+     *
+     * @returns {Q.Promise<vscode.TextDocument | null>} the updated document, or null if no editor is active
+     * @memberof JournalCommands
+     */
+    public toggleTask(): Q.Promise<vscode.TextDocument | null> {
+        this.ctrl.logger.trace("Entering toggleTask() in ext/commands.ts");
+
+        let editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+        if (isNullOrUndefined(editor)) return Q.resolve(null);
+
+        return this.ctrl.writer.toggleTasks(editor!.document, this.getSelectedLines(editor!));
+    }
+
+    /**
+     * Called by command 'Journal:cycleTask'. Moves the task under the cursor (or all tasks within the selections 
+     * of the active editor) to the next state: open, in progress, completed, cancelled, deferred and open again. 
+     *
+     * @returns {Q.Promise<vscode.TextDocument | null>} the updated document, or null if no editor is active
+     * @memberof JournalCommands
+     */
+    public cycleTask(): Q.Promise<vscode.TextDocument | null> {
+        this.ctrl.logger.trace("Entering cycleTask() in ext/commands.ts");
+
+        let editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+        if (isNullOrUndefined(editor)) return Q.resolve(null);
+
+        return this.ctrl.writer.cycleTasks(editor!.document, this.getSelectedLines(editor!));
+    }
+
+    /**
+     * Called from the tasks view, opens the journal page of the task at the task's line
+     *
+     * @param {TaskEntry} task the task selected in the view
+     * @returns {Q.Promise<vscode.TextEditor>}
+     * @memberof JournalCommands
+     */
+    public openTask(task: TaskEntry): Q.Promise<vscode.TextEditor> {
+        this.ctrl.logger.trace("Entering openTask() in ext/commands.ts");
+
+        return this.ctrl.ui.openDocument(task.path)
+            .then((doc: vscode.TextDocument) => this.ctrl.ui.showDocumentAtLine(doc, task.line));
+    }
+
+    /**
+     * Called from the tasks view, marks the task as completed
+     *
+     * @param {TaskEntry} task the task selected in the view
+     * @returns {Q.Promise<vscode.TextDocument>} the updated journal page
+     * @memberof JournalCommands
+     */
+    public completeTask(task: TaskEntry): Q.Promise<vscode.TextDocument> {
+        this.ctrl.logger.trace("Entering completeTask() in ext/commands.ts");
+
+        return this.ctrl.ui.openDocument(task.path)
+            .then((doc: vscode.TextDocument) => this.ctrl.writer.completeTask(doc, task.line));
+    }
+
+    /**
+     * Called from the tasks view, asks for a new day and moves the task into the entry of this day. The task 
+     * is marked as migrated in its current journal page. 
+     *
+     * @param {TaskEntry} task the task selected in the view
+     * @returns {Q.Promise<vscode.TextDocument | null>} the entry with the task, or null if canceled
+     * @memberof JournalCommands
+     */
+    public rescheduleTask(task: TaskEntry): Q.Promise<vscode.TextDocument | null> {
+        this.ctrl.logger.trace("Entering rescheduleTask() in ext/commands.ts");
+
+        var deferred: Q.Deferred<vscode.TextDocument | null> = Q.defer<vscode.TextDocument | null>();
+
+        let source: vscode.TextDocument;
+        let date: Date;
+        let scope: string;
+
+        this.ctrl.ui.openDocument(task.path)
+            .then((doc: vscode.TextDocument) => {
+                source = doc;
+                if (this.ctrl.writer.getOpenTaskCheckbox(source, task.line) < 0) {
+                    throw new Error("The task has been changed, please refresh the tasks view.");
+                }
+                return this.ctrl.ui.getUserInput("Reschedule task to (e.g. tomorrow, next friday, in 3 days)");
+            })
+            .then((value: string) => this.ctrl.parser.parseInput(value))
+            .then((input: J.Model.Input) => {
+                if (input instanceof NoteInput || input.isPeriod()) {
+                    throw new Error("Tasks can only be rescheduled to a day.");
+                }
+                date = input.generateDate();
+                scope = input.hasScope() ? input.scope : task.scope;
+                return this.ctrl.reader.loadEntryForDate(date, scope);
+            })
+            .then((target: vscode.TextDocument) => {
+                if (target.uri.fsPath === source.uri.fsPath) {
+                    throw new Error("The task is already scheduled for this day.");
+                }
+
+                return this.ctrl.config.getTaskInlineTemplate(date, scope)
+                    .then((tpl: J.Extension.InlineTemplate) => {
+                        tpl.value = source.lineAt(task.line).text.trim();
+                        return this.ctrl.inject.buildInlineString(target, tpl);
+                    })
+                    .then(inlineString => this.ctrl.inject.injectInlineString(inlineString))
+                    .then((doc: vscode.TextDocument) => this.ctrl.ui.saveDocument(doc));
+            })
+            .then((target: vscode.TextDocument) =>
+                this.ctrl.writer.markTasksAsMigrated(source, [source.lineAt(task.line)], target, date)
+                    .then(() => deferred.resolve(target)))
+            .catch((error: any) => {
+                if (error !== 'cancel') {
+                    this.ctrl.logger.error("Failed to reschedule task.", error);
+                    deferred.reject(error);
+                } else {
+                    deferred.resolve(null);
+                }
+            })
+            .done();
+
+        return deferred.promise;
+    }
+
+    /**
+     * Called by command 'Journal:printTime'. Prints the current time (using the template "time") at 
+     * each cursor, selected text is replaced. 
+     *
+     * @returns {Q.Promise<vscode.TextEditor | null>} the editor, or null if no editor is active
+     * @memberof JournalCommands
+     */
+    public printTime(): Q.Promise<vscode.TextEditor | null> {
+        this.ctrl.logger.trace("Entering printTime() in ext/commands.ts");
+
+        let editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+        if (isNullOrUndefined(editor)) return Q.resolve(null);
+
+        return this.ctrl.config.getTimeStringTemplate(new Date())
+            .then((tpl: J.Extension.InlineTemplate) => this.ctrl.writer.printText(editor!, editor!.selections, tpl.value!));
+    }
+
+    /**
+     * Called by command 'Journal:printDuration'. Computes the hours between the selected times (e.g. "9:00-17:30", 
+     * or two selections with one time each). More than two times are taken as pairs of start and end, and the 
+     * durations are summed up. A duration ending before its start crosses midnight. 
+     * 
+     * The result (see setting "journal.durationFormat") is printed at the cursors without selection, or after 
+     * the last selection. 
+     *
+     * @returns {Q.Promise<vscode.TextEditor | null>} the editor, or null if no editor is active
+     * @memberof JournalCommands
+     */
+    public printDuration(): Q.Promise<vscode.TextEditor | null> {
+        this.ctrl.logger.trace("Entering printDuration() in ext/commands.ts");
+
+        let editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+        if (isNullOrUndefined(editor)) return Q.resolve(null);
+
+        let times: number[] = [];
+        this.getSelectedTexts(editor!).forEach(text => times.push(...J.Util.findTimes(text)));
+
+        if (times.length < 2 || times.length % 2 !== 0) {
+            return Q.reject<vscode.TextEditor>("To compute the duration, select pairs of start and end times (e.g. 9:00-17:30).");
+        }
+
+        let minutes: number = 0;
+        for (let i = 0; i < times.length; i += 2) {
+            minutes += J.Util.computeDuration(times[i], times[i + 1]);
+        }
+
+        return this.printResult(editor!, J.Util.formatDuration(minutes, this.ctrl.config.getDurationFormat()));
+    }
+
+    /**
+     * Called by command 'Journal:printSum'. Sums up all numbers within the selections. Values written as hours and 
+     * minutes (e.g. "2:45") are added as hours, and the sum is printed in the same way. 
+     * 
+     * The result is printed at the cursors without selection, or after the last selection. 
+     *
+     * @returns {Q.Promise<vscode.TextEditor | null>} the editor, or null if no editor is active
+     * @memberof JournalCommands
+     */
+    public printSum(): Q.Promise<vscode.TextEditor | null> {
+        this.ctrl.logger.trace("Entering printSum() in ext/commands.ts");
+
+        let editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+        if (isNullOrUndefined(editor)) return Q.resolve(null);
+
+        let numbers: number[] = [];
+        let hasTimes: boolean = false;
+        this.getSelectedTexts(editor!).forEach(text => {
+            let found = J.Util.findNumbers(text);
+            numbers.push(...found.numbers);
+            hasTimes = hasTimes || found.hasTimes;
+        });
+
+        if (numbers.length === 0) {
+            return Q.reject<vscode.TextEditor>("To compute the sum, select the numbers to sum up.");
+        }
+
+        let sum: number = numbers.reduce((previous, current) => previous + current, 0);
+        let result: string = hasTimes ? J.Util.formatDuration(sum * 60, "hh:mm") : parseFloat(sum.toFixed(2)).toString();
+
+        return this.printResult(editor!, result);
+    }
+
+    /**
+     * Called by command 'Journal:timesheet'. Asks for a range of days (e.g. "last week") and shows a report of the 
+     * time tracking lines within this range, which can be exported as CSV. 
+     *
+     * @returns {Q.Promise<vscode.TextEditor | null>} the editor with the report, or null if canceled
+     * @memberof JournalCommands
+     */
+    public showTimesheet(): Q.Promise<vscode.TextEditor | null> {
+        this.ctrl.logger.trace("Entering showTimesheet() in ext/commands.ts");
+
+        var deferred: Q.Deferred<vscode.TextEditor | null> = Q.defer<vscode.TextEditor | null>();
+
+        this.getTimesheet()
+            .then(([range, times]) => {
+                moment.locale(this.ctrl.config.getLocale());
+                let report: string = J.Util.buildTimesheetReport(times, range, this.ctrl.config.getDurationFormat());
+
+                return Q.Promise<vscode.TextEditor>((resolve, reject) => {
+                    vscode.workspace.openTextDocument({ language: "markdown", content: report })
+                        .then(doc => vscode.window.showTextDocument(doc))
+                        .then(editor => resolve(editor), error => reject(error));
+                }).then((editor: vscode.TextEditor) => {
+                    deferred.resolve(editor);
+
+                    vscode.window.showInformationMessage("Timesheet with " + times.length + " tracked times", "Export CSV")
+                        .then(clicked => {
+                            if (clicked === "Export CSV") {
+                                this.saveTimesheetCsv(range, times)
+                                    .catch(error => this.showError(error))
+                                    .done();
+                            }
+                        });
+                });
+            })
+            .catch((error: any) => {
+                if (error !== 'cancel') {
+                    this.ctrl.logger.error("Failed to show timesheet.", error);
+                    deferred.reject(error);
+                } else {
+                    deferred.resolve(null);
+                }
+            })
+            .done();
+
+        return deferred.promise;
+    }
+
+    /**
+     * Called by command 'Journal:exportTimesheet'. Asks for a range of days and saves the time tracking lines 
+     * within this range as CSV file. 
+     *
+     * @returns {Q.Promise<vscode.Uri | null>} the CSV file, or null if canceled
+     * @memberof JournalCommands
+     */
+    public exportTimesheet(): Q.Promise<vscode.Uri | null> {
+        this.ctrl.logger.trace("Entering exportTimesheet() in ext/commands.ts");
+
+        var deferred: Q.Deferred<vscode.Uri | null> = Q.defer<vscode.Uri | null>();
+
+        this.getTimesheet()
+            .then(([range, times]) => this.saveTimesheetCsv(range, times))
+            .then(uri => deferred.resolve(uri))
+            .catch((error: any) => {
+                if (error !== 'cancel') {
+                    this.ctrl.logger.error("Failed to export timesheet.", error);
+                    deferred.reject(error);
+                } else {
+                    deferred.resolve(null);
+                }
+            })
+            .done();
+
+        return deferred.promise;
+    }
+
     public showError(error: string | Q.Promise<string> | Error): void {
 
         if (Q.isPromise(error)) {
@@ -197,8 +675,59 @@ export class JournalCommands implements Commands {
             });
     }
 
+    /**
+     * Shows the page loaded for the given input. If a memo or task has been injected, the entry stays closed 
+     * (unless configured otherwise) and the user is notified instead. 
+     * 
+     * @param input the parsed user input
+     * @param doc the page loaded for the input
+     */
+    private showPageForInput(input: J.Model.Input, doc: vscode.TextDocument): Q.Promise<vscode.TextEditor | null> {
+        if (!this.isInjectedInput(input) || this.ctrl.config.isOpenAfterInject()) {
+            return this.ctrl.ui.showDocument(doc);
+        }
+
+        return Q.Promise<vscode.TextEditor | null>((resolve, reject) => {
+            let message: string = input.generateDetail(this.ctrl.config) + ": " + input.text;
+            vscode.window.showInformationMessage(message, "Open entry")
+                .then(clicked => {
+                    if (clicked === "Open entry") {
+                        this.ctrl.ui.showDocument(doc)
+                            .then(editor => resolve(editor), error => reject(error));
+                    } else {
+                        resolve(null);
+                    }
+                }, error => reject(error));
+        });
+    }
+
+    private isInjectedInput(input: J.Model.Input): boolean {
+        return !(input instanceof SelectedInput) && !(input instanceof NoteInput) && input.hasFlags() && input.hasMemo();
+    }
+
+    /**
+     * Links the note in today's journal entry (of the note's scope). Failing to link the note is logged, 
+     * but doesn't prevent the note from being opened. 
+     * 
+     * @param note the new note
+     * @param input the input used to create the note
+     * @returns the note
+     */
+    private linkNote(note: vscode.TextDocument, input: J.Model.Input): Q.Promise<vscode.TextDocument> {
+        this.ctrl.logger.trace("Entering linkNote() in ext/commands.ts");
+
+        return this.ctrl.reader.loadEntryForDate(new Date(), input.scope)
+            .then((entry: vscode.TextDocument) => this.ctrl.inject.injectNoteLink(entry, note, input))
+            .then(() => note)
+            .catch((error: any) => {
+                this.ctrl.logger.error("Failed to link note in journal entry.", error);
+                return note;
+            });
+    }
+
     /**
      * Expects any user input from the magic input and either opens the file or creates it. 
+     * If the input includes a memo or task, it is injected into the journal entry. 
      * @param input 
      */
     private loadPageForInput(input: J.Model.Input): Q.Promise<vscode.TextDocument> {
@@ -210,9 +739,86 @@ export class JournalCommands implements Commands {
         } if (input instanceof NoteInput) {
             // we create or load the notes
             return this.ctrl.inject.buildNoteContent(input)
-                .then(content => this.ctrl.reader.loadNote(input.path, content));
+                .then(content => this.ctrl.reader.loadNote(input.path, content))
+                .then((doc: vscode.TextDocument) => this.linkNote(doc, input));
         } else {
-            return this.ctrl.reader.loadEntryForInput(input);
+            return this.ctrl.reader.loadEntryForInput(input)
+                .then((doc: vscode.TextDocument) => this.ctrl.inject.injectInput(doc, input));
         }
     }
+
+    /**
+     * Asks for the range of a timesheet and collects the tracked times within this range (of the entered scope, 
+     * or of all scopes)
+     */
+    private getTimesheet(): Q.Promise<[J.Util.DateRange, J.Util.TrackedTime[]]> {
+        let range: J.Util.DateRange;
+
+        return this.ctrl.ui.getUserInput("Timesheet for (e.g. last week, 2026-10, #work this month, 2026-10-01..2026-10-15)")
+            .then((value: string) => this.ctrl.parser.parseDateRange(value))
+            .then((r: J.Util.DateRange) => {
+                range = r;
+                let directories = this.ctrl.ui.getBaseDirectories().filter(directory => isNullOrUndefined(range.scope) || directory.scope === range.scope);
+                return this.ctrl.reader.getTrackedTimes(directories, range);
+            })
+            .then((times: J.Util.TrackedTime[]): [J.Util.DateRange, J.Util.TrackedTime[]] => [range, times]);
+    }
+
+    /**
+     * Asks for the location of the CSV file (default is the base directory) and saves the tracked times
+     */
+    private saveTimesheetCsv(range: J.Util.DateRange, times: J.Util.TrackedTime[]): Q.Promise<vscode.Uri | null> {
+        let name: string = "timesheet-" + moment(range.from).format("YYYY-MM-DD") + "-" + moment(range.to).format("YYYY-MM-DD") + ".csv";
+        let options: vscode.SaveDialogOptions = {
+            defaultUri: vscode.Uri.file(Path.join(this.ctrl.config.getBasePath(range.scope), name)),
+            filters: { "CSV": ["csv"] }
+        };
+
+        return Q.Promise<vscode.Uri | undefined>((resolve, reject) => {
+            vscode.window.showSaveDialog(options).then(resolve, reject);
+        }).then((uri: vscode.Uri | undefined) => {
+            if (isNullOrUndefined(uri)) return null;
+            return this.ctrl.writer.writeFile(uri!.fsPath, J.Util.buildTimesheetCsv(times)).then(() => uri!);
+        });
+    }
+
+    /**
+     * Returns the texts of the non-empty selections of the given editor (in the order of the document)
+     */
+    private getSelectedTexts(editor: vscode.TextEditor): string[] {
+        return editor.selections
+            .filter(selection => !selection.isEmpty)
+            .sort((a, b) => a.start.compareTo(b.start))
+            .map(selection => editor.document.getText(selection));
+    }
+
+    /**
+     * Prints the result of a computation at the cursors without selection, or (if there are none) after the last selection
+     */
+    private printResult(editor: vscode.TextEditor, result: string): Q.Promise<vscode.TextEditor | null> {
+        let cursors: vscode.Selection[] = editor.selections.filter(selection => selection.isEmpty);
+        if (cursors.length > 0) {
+            return this.ctrl.writer.printText(editor, cursors, result);
+        }
+
+        let end: vscode.Position = editor.selections
+            .map(selection => selection.end)
+            .reduce((last, position) => position.isAfter(last) ? position : last);
+        return this.ctrl.writer.printText(editor, [new vscode.Range(end, end)], " " + result);
+    }
+
+    /**
+     * Returns the lines touched by the selections (or cursors) of the given editor
+     */
+    private getSelectedLines(editor: vscode.TextEditor): number[] {
+        let lines: number[] = [];
+        editor.selections.forEach(selection => {
+            // a selection ending at the beginning of a line doesn't include this line
+            let end: number = (selection.end.character === 0 && selection.end.line > selection.start.line) ? selection.end.line - 1 : selection.end.line;
+            for (let line = selection.start.line; line <= end; line++) {
+                if (lines.indexOf(line) < 0) lines.push(line);
+            }
+        });
+        return lines;
+    }
 }
@@ -20,12 +20,14 @@
 import * as vscode from 'vscode';
 import * as os from 'os';
 import * as Path from 'path';
+import * as fs from 'fs';
 import * as Q from 'q';
 import { isNullOrUndefined, isNull, isUndefined } from 'util';
 import * as moment from 'moment';
 import { Script } from 'vm';
 import { Util } from '..';
-import { isNotNullOrUndefined } from '../util';
+import { isNotNullOrUndefined, DurationFormat } from '../util';
+import { LocalePack, LocalePackDefinition, BUILTIN_LOCALE_PACKS, ENGLISH, mergeLocalePack } from './locales';
 
 export const SCOPE_DEFAULT = "default";
 
@@ -34,7 +36,9 @@ export const SCOPE_DEFAULT = "default";
 export enum JournalPageType {
     NOTE,
     ENTRY,
-    ATTACHEMENT
+    ATTACHEMENT,
+    WEEK,
+    MONTH
 }
 
 export interface ScopedTemplate {
@@ -42,6 +46,10 @@ export interface ScopedTemplate {
     scope?: string;
     template: string;
     value?: string;
+    /** path of a markdown file with the template (replaces the template string, if the file can be read) */
+    file?: string;
+    /** condition for variants of a template, e.g. "isWeekend" (see J.Util.renderTemplate for the expressions) */
+    when?: string;
 }
 
 
@@ -62,7 +70,12 @@ export interface InlineTemplate extends ScopedTemplate {
 }
 
 /** types in the settings.json */
-type PatternDefinition = { notes: { path: string, file: string }, entries: { path: string, file: string } };
+type PatternDefinition = {
+    notes: { path: string, file: string },
+    entries: { path: string, file: string },
+    weeks?: { path: string, file: string },
+    months?: { path: string, file: string }
+};
 
 var DefaultPatternDefinition: PatternDefinition =
 {
@@ -73,6 +86,14 @@ var DefaultPatternDefinition: PatternDefinition =
     entries: {
         path: "${base}/entries",
         file: "${year}-${month}-${day} ${weekday}.${ext}"
+    },
+    weeks: {
+        path: "${base}/weeks",
+        file: "${isoYear}-W${week}.${ext}"
+    },
+    months: {
+        path: "${base}/months",
+        file: "${year}-${month}.${ext}"
     }
 };
 
@@ -80,10 +101,15 @@ type ScopeDefinition = {
     "name": string,
     "base": string,
     "patterns": PatternDefinition,
-    "templates": InlineTemplate[]
+    "templates": InlineTemplate[],
+    "carryOverTasks"?: CarryOverMode,
+    "carryOverLookBack"?: number
 
 }
 
+/** what happens with open tasks of the previous entry, when a new entry is created */
+export type CarryOverMode = "off" | "copy" | "move";
+
 /**
  * Manages access to journal configuration. 
  * 
@@ -95,6 +121,12 @@ export class Configuration {
 
     private patterns: Map<string, ScopedTemplate> = new Map();
 
+    // content of the template files, with their modification time when they have been read
+    private templateFiles: Map<string, { mtime: number, content: string }> = new Map();
+
+    // template files which couldn't be read (the user is warned only once per file)
+    private missingTemplateFiles: Set<string> = new Set();
+
 
     constructor(public config: vscode.WorkspaceConfiguration) {
 
@@ -108,22 +140,46 @@ export class Configuration {
     }
 
 
+    private localePack: { key: string, pack: LocalePack } | undefined;
+
+    /**
+     * Returns the words understood by the smart input (shortcuts, weekdays, modifiers, task flags) for the 
+     * configured locale. English is always understood, the built-in pack and the packs defined by the user 
+     * (in "journal.localePacks") for the language of the locale are added. 
+     */
+    public getLocalePack(): LocalePack {
+        let locale: string = this.getLocale().toLowerCase();
+        let definitions: LocalePackDefinition[] = this.config.get<LocalePackDefinition[]>("localePacks") || [];
+
+        let key: string = locale + JSON.stringify(definitions);
+        if (isNotNullOrUndefined(this.localePack) && this.localePack!.key === key) {
+            return this.localePack!.pack;
+        }
+
+        let pack: LocalePack = (<LocalePackDefinition[]>BUILTIN_LOCALE_PACKS)
+            .filter(definition => definition !== ENGLISH)
+            .concat(definitions)
+            .filter(definition => Util.stringIsNotEmpty(definition.locale) && locale.startsWith(definition.locale.toLowerCase()))
+            .reduce((result: LocalePack, definition: LocalePackDefinition) => mergeLocalePack(result, definition), ENGLISH);
+
+        this.localePack = { key: key, pack: pack };
+        return pack;
+    }
+
+
     /**
      * Returns all known scopes in the settings
      */
     public getScopes(): string[] {
         let res = [SCOPE_DEFAULT];
-        let scopes: ScopeDefinition[] | undefined = this.config.get<[ScopeDefinition]>("scopes");
-        if (isNotNullOrUndefined(scopes) && scopes!.length > 0) {
-            this.config.get<[ScopeDefinition]>("scopes")?.map(sd => sd.name).forEach(name => res.push(name));
-        }
+        this.getScopeDefinitions().map(sd => sd.name).forEach(name => res.push(name));
         return res;
     }
 
     /**
      * The base path, defaults to %USERPROFILE"/Journal
      * 
-     * Supported variables: ${homeDir}
+     * Supported variables: ${homeDir}, ${workspaceRoot}, ${env:NAME}, ${config:NAME} and the variables in "journal.variables"
      * 
      * @param _scopeId 
      */
@@ -135,27 +191,17 @@ export class Configuration {
             let base: string | undefined = this.config.get<string>('base');
 
             if (!isNullOrUndefined(base) && base!.length > 0) {
-                const workspaceRoot = vscode.workspace.workspaceFolders?.length && vscode.workspace.workspaceFolders[0].uri.fsPath || '';
-                // resolve homedir
-                base = base.replace("${homeDir}", os.homedir()).replace("${workspaceRoot}", workspaceRoot);
-                base = Path.normalize(base);
-                return Path.format(Path.parse(base));
+                return this.resolveBasePath(base!, "journal.base");
             } else {
                 // let's default to user profile
                 return Path.resolve(os.homedir(), "Journal");
             }
         } else {
             // there is scope in the request, let's take the base from the scope definition (if it exists)
-            let scopes: ScopeDefinition[] | undefined = this.config.get<[ScopeDefinition]>('scopes');
-            if (!isUndefined(scopes)) {
-                let base: string[] = scopes.filter(v => v.name == scope)
-                    .map(scopeDefinition => scopeDefinition.base)
-                    .map(scopedBase => {
-
-                        scopedBase = scopedBase.replace("${homeDir}", os.homedir());
-                        scopedBase = Path.normalize(scopedBase);
-                        return Path.format(Path.parse(scopedBase));
-                    });
+            let scopes: ScopeDefinition[] = this.getScopeDefinitions();
+            if (scopes.length > 0) {
+                let base: string[] = scopes.filter(v => v.name == scope && Util.stringIsNotEmpty(v.base))
+                    .map(scopeDefinition => this.resolveBasePath(scopeDefinition.base, "base of scope '" + scope + "'"));
                 if (base.length == 0) return this.getBasePath();
                 else return base[0]; // we always take the first
             }
@@ -166,6 +212,23 @@ export class Configuration {
 
     }
 
+    /**
+     * Resolves the variables in the configured base path (of the default scope or a scope) and normalizes it. 
+     * 
+     * @param base the configured base path
+     * @param setting the setting, used in the error message
+     */
+    private resolveBasePath(base: string, setting: string): string {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.length && vscode.workspace.workspaceFolders[0].uri.fsPath || '';
+
+        base = this.replaceCustomVariables(base);
+        base = base.split("${homeDir}").join(os.homedir()).split("${workspaceRoot}").join(workspaceRoot);
+        this.checkUnresolvedVariables(base, setting);
+
+        base = Path.normalize(base);
+        return Path.format(Path.parse(base));
+    }
+
     /**
      * Configuration of file extension for notes and journal entries. Defaults to "md" for markdown. 
      * 
@@ -178,7 +241,7 @@ export class Configuration {
         }
 
         let ext: string | undefined = this.config.get<string>('ext');
-        ext = (isNullOrUndefined(ext) && (ext!.length === 0)) ? 'md' : ext;
+        ext = (isNullOrUndefined(ext) || (ext!.length === 0)) ? 'md' : ext;
 
         if (ext!.startsWith(".")) { ext = ext!.substring(1, ext!.length); }
 
@@ -188,7 +251,7 @@ export class Configuration {
     /**
      * Configuration for the path, where the notes are to be placed
      * 
-     * Supported variables: homeDir, base, year, month, day, moment
+     * Supported variables: homeDir, base, year, month, day, week, isoYear, quarter, dayOfYear, yesterday, tomorrow, moment
      * 
      * @param _scopeId default or individual
      */
@@ -201,9 +264,9 @@ export class Configuration {
                     template: ""
                 }
                 if (this.resolveScope(_scopeId) == SCOPE_DEFAULT) {
-                    definition = this.config.get<PatternDefinition>("pattern")?.notes?.path;
+                    definition = this.config.get<PatternDefinition>("patterns")?.notes?.path;
                 } else {
-                    definition = this.config.get<ScopeDefinition[]>("scopes")?.filter(sd => sd.name == _scopeId).pop()?.patterns?.notes?.path;
+                    definition = this.getScopeDefinitions().filter(sd => sd.name == _scopeId).pop()?.patterns?.notes?.path;
                     scopedTemplate.scope = _scopeId!;
                 }
 
@@ -211,11 +274,12 @@ export class Configuration {
                     definition = DefaultPatternDefinition.notes.path;
                 }
                 scopedTemplate.template = definition;
-                scopedTemplate.value = scopedTemplate.template;
+                scopedTemplate.value = this.replaceCustomVariables(scopedTemplate.template);
 
                 scopedTemplate.value = this.replaceVariableValue("homeDir", os.homedir(), scopedTemplate.value);
                 scopedTemplate.value = this.replaceVariableValue("base", this.getBasePath(_scopeId), scopedTemplate.value);
                 scopedTemplate.value = this.replaceDateFormats(scopedTemplate.value, date);
+                this.checkUnresolvedVariables(scopedTemplate.value, "notes path pattern", scopedTemplate.scope);
 
                 onSuccess(scopedTemplate);
             } catch (error) {
@@ -228,7 +292,7 @@ export class Configuration {
     /**
      * Configuration for the filename, under which the notes file is stored
      * 
-     * Supported variables: year, month, day, df, ext, input
+     * Supported variables: year, month, day, week, isoYear, quarter, dayOfYear, yesterday, tomorrow, df, ext, input
      * 
      * @param _scopeId default or individual
      */
@@ -241,9 +305,9 @@ export class Configuration {
                     template: ""
                 }
                 if (this.resolveScope(_scopeId) == SCOPE_DEFAULT) {
-                    definition = this.config.get<PatternDefinition>("pattern")?.notes?.file;
+                    definition = this.config.get<PatternDefinition>("patterns")?.notes?.file;
                 } else {
-                    definition = this.config.get<ScopeDefinition[]>("scopes")?.filter(sd => sd.name == _scopeId).pop()?.patterns?.notes?.file;
+                    definition = this.getScopeDefinitions().filter(sd => sd.name == _scopeId).pop()?.patterns?.notes?.file;
                     scopedTemplate.scope = _scopeId!;
                 }
 
@@ -252,9 +316,13 @@ export class Configuration {
                 }
                 scopedTemplate.template = definition;
 
-                scopedTemplate.value = this.replaceVariableValue("ext", this.getFileExtension(), scopedTemplate.template);
-                scopedTemplate.value = this.replaceVariableValue("input", input, scopedTemplate.value);
+                scopedTemplate.value = this.replaceCustomVariables(scopedTemplate.template);
+                scopedTemplate.value = this.replaceVariableValue("ext", this.getFileExtension(), scopedTemplate.value);
                 scopedTemplate.value = this.replaceDateFormats(scopedTemplate.value, date);
+                this.checkUnresolvedVariables(scopedTemplate.value, "notes file pattern", scopedTemplate.scope, ["input"]);
+
+                // the input is resolved last (it might contain anything)
+                scopedTemplate.value = this.replaceVariableValue("input", input, scopedTemplate.value);
 
                 onSuccess(scopedTemplate);
             } catch (error) {
@@ -267,7 +335,7 @@ export class Configuration {
     /**
      * Configuration for the path, under which the  journal entry  file is stored
      * 
-     * Supported variables: base, year, month, day, df
+     * Supported variables: base, year, month, day, week, isoYear, quarter, dayOfYear, yesterday, tomorrow, df
      * 
      * @param _scopeId default or individual
      */
@@ -282,7 +350,7 @@ export class Configuration {
                 if (this.resolveScope(_scopeId) == SCOPE_DEFAULT) {
                     definition = this.config.get<PatternDefinition>("patterns")?.entries?.path;
                 } else {
-                    definition = this.config.get<ScopeDefinition[]>("scopes")?.filter(sd => sd.name == _scopeId).pop()?.patterns?.entries?.path;
+                    definition = this.getScopeDefinitions().filter(sd => sd.name == _scopeId).pop()?.patterns?.entries?.path;
                     scopedTemplate.scope = _scopeId!;
                 }
 
@@ -293,8 +361,10 @@ export class Configuration {
 
 
                 // resolve variables
-                scopedTemplate.value = this.replaceVariableValue("base", this.getBasePath(_scopeId), scopedTemplate.template);
+                scopedTemplate.value = this.replaceCustomVariables(scopedTemplate.template);
+                scopedTemplate.value = this.replaceVariableValue("base", this.getBasePath(_scopeId), scopedTemplate.value);
                 scopedTemplate.value = this.replaceDateFormats(scopedTemplate.value, date);
+                this.checkUnresolvedVariables(scopedTemplate.value, "entries path pattern", scopedTemplate.scope);
 
                 // clean path
                 scopedTemplate.value = Path.normalize(scopedTemplate.value);
@@ -309,7 +379,7 @@ export class Configuration {
     /**
    * Configuration for the filename, under which the journal entry file is stored
    * 
-   * Supported variables: year, month, day, moment, ext
+   * Supported variables: year, month, day, week, isoYear, quarter, dayOfYear, yesterday, tomorrow, moment, ext
    * 
    * @param _scopeId default or individual
    * 
@@ -326,7 +396,7 @@ export class Configuration {
                 if (this.resolveScope(_scopeId) == SCOPE_DEFAULT) {
                     definition = this.config.get<PatternDefinition>("patterns")?.entries?.file;
                 } else {
-                    definition = this.config.get<ScopeDefinition[]>("scopes")?.filter(sd => sd.name == _scopeId).pop()?.patterns?.entries?.file;
+                    definition = this.getScopeDefinitions().filter(sd => sd.name == _scopeId).pop()?.patterns?.entries?.file;
                     scopedTemplate.scope = _scopeId!;
                 }
 
@@ -337,8 +407,10 @@ export class Configuration {
 
                 // resolve variables in template
 
-                scopedTemplate.value = this.replaceVariableValue("ext", this.getFileExtension(_scopeId), scopedTemplate.template);
+                scopedTemplate.value = this.replaceCustomVariables(scopedTemplate.template);
+                scopedTemplate.value = this.replaceVariableValue("ext", this.getFileExtension(), scopedTemplate.value);
                 scopedTemplate.value = this.replaceDateFormats(scopedTemplate.value, date);
+                this.checkUnresolvedVariables(scopedTemplate.value, "entries file pattern", scopedTemplate.scope);
 
                 onSuccess(scopedTemplate);
             } catch (error) {
@@ -351,6 +423,127 @@ export class Configuration {
 
 
 
+    /**
+     * Configuration for the path, under which the weekly pages are stored
+     * 
+     * Supported variables: base, year, month, day, week, isoYear, quarter, dayOfYear, yesterday, tomorrow, df
+     * 
+     * @param date any day of the week
+     * @param _scopeId default or individual
+     */
+    public getWeekPathPattern(date: Date, _scopeId?: string): Q.Promise<ScopedTemplate> {
+        return this.getPeriodPattern("weeks", "path", date, _scopeId);
+    }
+
+    /**
+     * Configuration for the filename, under which the weekly pages are stored
+     * 
+     * Supported variables: year, month, day, week, isoYear, quarter, dayOfYear, yesterday, tomorrow, moment, ext
+     * 
+     * @param date any day of the week
+     * @param _scopeId default or individual
+     */
+    public getWeekFilePattern(date: Date, _scopeId?: string): Q.Promise<ScopedTemplate> {
+        return this.getPeriodPattern("weeks", "file", date, _scopeId);
+    }
+
+    /**
+     * Configuration for the path, under which the monthly pages are stored
+     * 
+     * Supported variables: base, year, month, day, week, isoYear, quarter, dayOfYear, yesterday, tomorrow, df
+     * 
+     * @param date any day of the month
+     * @param _scopeId default or individual
+     */
+    public getMonthPathPattern(date: Date, _scopeId?: string): Q.Promise<ScopedTemplate> {
+        return this.getPeriodPattern("months", "path", date, _scopeId);
+    }
+
+    /**
+     * Configuration for the filename, under which the monthly pages are stored
+     * 
+     * Supported variables: year, month, day, week, isoYear, quarter, dayOfYear, yesterday, tomorrow, moment, ext
+     * 
+     * @param date any day of the month
+     * @param _scopeId default or individual
+     */
+    public getMonthFilePattern(date: Date, _scopeId?: string): Q.Promise<ScopedTemplate> {
+        return this.getPeriodPattern("months", "file", date, _scopeId);
+    }
+
+    /**
+     * Resolves the path or file pattern for weekly and monthly pages. 
+     * 
+     * @param key weeks or months
+     * @param part path or file
+     * @param date the date within the period
+     * @param _scopeId default or individual
+     */
+    private getPeriodPattern(key: "weeks" | "months", part: "path" | "file", date: Date, _scopeId?: string): Q.Promise<ScopedTemplate> {
+        return Q.Promise((onSuccess, onError) => {
+            try {
+                let definition: string | undefined;
+                let scopedTemplate: ScopedTemplate = {
+                    scope: SCOPE_DEFAULT,
+                    template: ""
+                }
+                if (this.resolveScope(_scopeId) == SCOPE_DEFAULT) {
+                    definition = this.config.get<PatternDefinition>("patterns")?.[key]?.[part];
+                } else {
+                    definition = this.getScopeDefinitions().filter(sd => sd.name == _scopeId).pop()?.patterns?.[key]?.[part];
+                    scopedTemplate.scope = _scopeId!;
+                }
+
+                if (isNullOrUndefined(definition) || definition.length == 0) {
+                    definition = DefaultPatternDefinition[key]![part];
+                }
+                scopedTemplate.template = definition;
+
+                // resolve variables
+                scopedTemplate.value = this.replaceCustomVariables(scopedTemplate.template);
+                scopedTemplate.value = this.replaceVariableValue("base", this.getBasePath(_scopeId), scopedTemplate.value);
+                scopedTemplate.value = this.replaceVariableValue("ext", this.getFileExtension(), scopedTemplate.value);
+                scopedTemplate.value = this.replaceDateFormats(scopedTemplate.value, date);
+                this.checkUnresolvedVariables(scopedTemplate.value, key + " " + part + " pattern", scopedTemplate.scope);
+
+                // clean path
+                if (part == "path") scopedTemplate.value = Path.normalize(scopedTemplate.value);
+
+                onSuccess(scopedTemplate);
+            } catch (error) {
+                onError(error);
+            }
+
+        });
+    }
+
+
+    /**
+     * Replaces the variables ${prevEntryLink} and ${nextEntryLink} with the links (relative to the journal entry 
+     * of the given day) to the entries of the previous and the next day. 
+     * 
+     * @param template the template
+     * @param date the day of the journal entry the template is written into
+     * @param _scopeId default or individual
+     */
+    private replaceEntryLinks(template: string, date: Date, _scopeId?: string): Q.Promise<string> {
+        if (template.indexOf("${prevEntryLink}") < 0 && template.indexOf("${nextEntryLink}") < 0) return Q.resolve(template);
+
+        let getEntryPath = (day: Date): Q.Promise<string> => Q.all([
+            this.getEntryPathPattern(day, _scopeId),
+            this.getEntryFilePattern(day, _scopeId)
+        ]).then(([pathname, filename]) => Path.resolve(pathname.value!, filename.value!));
+
+        return Q.all([
+            getEntryPath(date),
+            getEntryPath(moment(date).subtract(1, 'days').toDate()),
+            getEntryPath(moment(date).add(1, 'days').toDate())
+        ]).then(([current, previous, next]) => {
+            let link = (path: string) => encodeURI(Path.relative(Path.dirname(current), path).split(Path.sep).join('/'));
+            return template.split("${prevEntryLink}").join(link(previous)).split("${nextEntryLink}").join(link(next));
+        });
+    }
+
     /**
      * Checks whether any embedded expressions with date formats are in the template, and replaces them in the value using the given date. 
      * 
@@ -361,7 +554,7 @@ export class Configuration {
     // private regExpDateFormats: RegExp = new RegExp(/\$\{(?:(year|month|day|localTime|localDate|weekday)|(d:\w+))\}/g);
     // fix for #52
     // private regExpDateFormats: RegExp = new RegExp(/\$\{(?:(year|month|day|localTime|localDate|weekday)|(d:\w+))\}/g);
-    private regExpDateFormats: RegExp = new RegExp(/\$\{(?:(year|month|day|localTime|localDate|weekday)|(d:[\s\S]+?))\}/g);
+    private regExpDateFormats: RegExp = new RegExp(/\$\{(?:(year|month|day|localTime|localDate|weekday|week|isoYear|quarter|dayOfYear)|((?:d|yesterday|tomorrow):[\s\S]+?)|(yesterday|tomorrow))\}/g);
 
     private replaceDateFormats(template: string, date: Date): string {
         let matches: RegExpMatchArray = template.match(this.regExpDateFormats) || [];
@@ -386,7 +579,27 @@ export class Configuration {
                     template = template.replace(match, mom.format("LL")); break;
                 case "${weekday}":
                     template = template.replace(match, mom.format("dddd")); break;
+                case "${week}":
+                    template = template.replace(match, mom.format("WW")); break;
+                case "${isoYear}":
+                    template = template.replace(match, mom.format("GGGG")); break;
+                case "${quarter}":
+                    template = template.replace(match, mom.format("Q")); break;
+                case "${dayOfYear}":
+                    template = template.replace(match, mom.format("DDDD")); break;
+                case "${yesterday}":
+                    template = template.replace(match, mom.clone().subtract(1, 'days').format("YYYY-MM-DD")); break;
+                case "${tomorrow}":
+                    template = template.replace(match, mom.clone().add(1, 'days').format("YYYY-MM-DD")); break;
                 default:
+                    // relative days with custom format, e.g. ${yesterday:dddd}
+                    if (match.startsWith("${yesterday:") || match.startsWith("${tomorrow:")) {
+                        let modifier = match.substring(match.indexOf(":") + 1, match.length - 1);
+                        let relative = match.startsWith("${yesterday:") ? mom.clone().subtract(1, 'days') : mom.clone().add(1, 'days');
+                        template = template.replace(match, relative.format(modifier));
+                        break;
+                    }
+
                     // check if custom format
                     if (match.startsWith("${d:")) {
 
@@ -464,7 +677,7 @@ export class Configuration {
 
 
     /**
-     * Generates the details for the QuickPick Box (when creating a task)
+     * Generates the details for the QuickPick Box (when creating a memo)
      * 
      * FIXME: Externalize to properties
      * @param dayAsString 
@@ -477,6 +690,37 @@ export class Configuration {
         // }
     }
 
+    /**
+     * Generates the details for the QuickPick Box (when creating a task)
+     *
+     * FIXME: Externalize to properties
+     * @param dayAsString
+     */
+    public getInputDetailsStringForTask(dayAsString: string) {
+        return `Add task to entry ${dayAsString}`;
+    }
+
+
+    public getInputDetailsStringForNote() {
+        return `Create new note in default path`;
+    }
+
+    public getInputDetailsStringForNoteInScope(scope: string) {
+        return `Create new note in scope "${scope}"`;
+    }
+
+    public getInputDetailsStringForScope(scope: string) {
+        return `in scope "${scope}"`;
+    }
+
+    public getInputDetailsStringForWeek(weekAsString: string) {
+        return `Create or open page for week ${weekAsString}`;
+    }
+
+    public getInputDetailsStringForMonth(monthAsString: string) {
+        return `Create or open page for ${monthAsString}`;
+    }
+
 
     private labelTranslations: Map<string, string> = new Map();
     public getInputLabelTranslation(code: number) {
@@ -526,27 +770,78 @@ export class Configuration {
      *
      * Retrieves the (scoped) inline template for a journal entry. 
      * 
-     * Supported variables: localDate, year, month, day, format
+     * Supported variables: localDate, year, month, day, format, prevEntryLink, nextEntryLink
      * 
      * Default value is: "# ${localDate}\n\n",
      * @param {string} [_scopeId]
      * @returns {Q.Promise<FileTemplate>}
      * @memberof Configuration
      */
-    public getEntryTemplate(date: Date, _scopeId?: string): Q.Promise<HeaderTemplate> {
-        return this.getInlineTemplate("entry", "# ${localDate}\n\n", this.resolveScope(_scopeId))
+    public getEntryTemplate(date: Date, _scopeId?: string, _context?: Util.TemplateContext): Q.Promise<HeaderTemplate> {
+        let context: Util.TemplateContext = Object.assign(this.getTemplateContext(date, _scopeId), _context);
+
+        return this.getInlineTemplate("entry", "# ${localDate}\n\n", this.resolveScope(_scopeId), '', context)
             .then((sp: ScopedTemplate) => {
 
                 // backwards compatibility, replace {content} with ${input} as default
                 sp.template = sp.template.replace("{content}", "${localDate}");
 
-                sp.value = this.replaceDateFormats(sp.template, date);
-                sp.value = this.replaceVariableValue("base", this.getBasePath(_scopeId), sp.value);
-
-                return sp;
+                return this.renderBlocks(sp.template, context, this.resolveScope(_scopeId))
+                    .then((value: string) => this.replaceEntryLinks(value, date, _scopeId))
+                    .then((value: string) => {
+                        sp.value = this.replaceDateFormats(value, date);
+                        sp.value = this.replaceVariableValue("base", this.getBasePath(_scopeId), sp.value);
+                        return sp;
+                    });
             });
     }
 
+    /**
+     * Retrieves the (scoped) template for a weekly page. 
+     * 
+     * Supported variables: localDate, year, month, day, format (use ${d:W} for the week number)
+     * 
+     * Default value is: "# Week ${d:W}, ${d:GGGG}\n\n## Goals\n\n## Review\n\n"
+     * 
+     * @param {Date} date any day of the week
+     * @param {string} [_scopeId]
+     * @returns {Q.Promise<HeaderTemplate>}
+     * @memberof Configuration
+     */
+    public getWeekTemplate(date: Date, _scopeId?: string): Q.Promise<HeaderTemplate> {
+        let context: Util.TemplateContext = this.getTemplateContext(date, _scopeId);
+
+        return this.getInlineTemplate("week", "# Week ${d:W}, ${d:GGGG}\n\n## Goals\n\n## Review\n\n", this.resolveScope(_scopeId), '', context)
+            .then((sp: ScopedTemplate) => this.renderBlocks(sp.template, context, this.resolveScope(_scopeId))
+                .then((value: string) => {
+                    sp.value = this.replaceDateFormats(value, date);
+                    return sp;
+                }));
+    }
+
+    /**
+     * Retrieves the (scoped) template for a monthly page. 
+     * 
+     * Supported variables: localDate, year, month, day, format
+     * 
+     * Default value is: "# ${d:MMMM YYYY}\n\n## Goals\n\n## Review\n\n"
+     * 
+     * @param {Date} date any day of the month
+     * @param {string} [_scopeId]
+     * @returns {Q.Promise<HeaderTemplate>}
+     * @memberof Configuration
+     */
+    public getMonthTemplate(date: Date, _scopeId?: string): Q.Promise<HeaderTemplate> {
+        let context: Util.TemplateContext = this.getTemplateContext(date, _scopeId);
+
+        return this.getInlineTemplate("month", "# ${d:MMMM YYYY}\n\n## Goals\n\n## Review\n\n", this.resolveScope(_scopeId), '', context)
+            .then((sp: ScopedTemplate) => this.renderBlocks(sp.template, context, this.resolveScope(_scopeId))
+                .then((value: string) => {
+                    sp.value = this.replaceDateFormats(value, date);
+                    return sp;
+                }));
+    }
+
     /**
        * Retrieves the (scoped) file template for a note. 
        * 
@@ -557,17 +852,223 @@ export class Configuration {
        * @memberof Configuration 
        */
     public getNotesTemplate(_scopeId?: string): Q.Promise<HeaderTemplate> {
-        return this.getInlineTemplate("note", "# ${input}\n${tags}\n", this.resolveScope(_scopeId))
+        let date: Date = new Date();
+        let context: Util.TemplateContext = this.getTemplateContext(date, _scopeId);
+
+        return this.getInlineTemplate("note", "# ${input}\n${tags}\n", this.resolveScope(_scopeId), '', context)
             .then((result: ScopedTemplate) => {
                 // backwards compatibility, replace {content} with ${input} as default
                 result.template = result.template.replace("{content}", "${input}");
 
-                result.value = this.replaceDateFormats(result.template, new Date());
+                return this.renderBlocks(result.template, context, this.resolveScope(_scopeId))
+                    .then((value: string) => {
+                        result.value = this.replaceDateFormats(value, date);
+                        return result;
+                    });
+            });
+    }
+
+    /**
+     * Checks whether the (scoped) entry template might use the value with the given name (e.g. "openTasks"), values 
+     * which aren't used don't have to be looked up. Template files and templates with includes might use any value. 
+     *
+     * @param {string} name the name of the value in the template context
+     * @param {string} [_scopeId] the scope of the entry
+     * @returns {boolean} true if any variant of the entry template refers to the value
+     * @memberof Configuration
+     */
+    public isUsedInEntryTemplate(name: string, _scopeId?: string): boolean {
+        let templates: InlineTemplate[] = (this.getScopeDefinition(this.resolveScope(_scopeId))?.templates || [])
+            .concat(this.config.get<InlineTemplate[]>("templates") || [])
+            .filter(tpl => !isNullOrUndefined(tpl) && tpl.name == "entry");
+
+        return templates.some(tpl => Util.stringIsNotEmpty(tpl.file) ||
+            [tpl.template, tpl.when].some(value => Util.stringIsNotEmpty(value) && (value!.indexOf(name) >= 0 || value!.indexOf("{{>") >= 0)));
+    }
+
+    /**
+     * The values of the day for the blocks in templates (see J.Util.renderTemplate): year, month, day, date 
+     * ("YYYY-MM-DD"), weekday (english name, e.g. "Monday"), localWeekday, isoWeekday (1 is monday), week, isoYear, 
+     * quarter, dayOfYear, isWeekend, isFirstOfMonth, isLastOfMonth and scope. 
+     *
+     * @param {Date} date the day of the journal page
+     * @param {string} [_scopeId] the scope of the journal page
+     * @returns {Util.TemplateContext} the values
+     * @memberof Configuration
+     */
+    public getTemplateContext(date: Date, _scopeId?: string): Util.TemplateContext {
+        moment.locale(this.getLocale());
+        let mom: moment.Moment = moment(date);
+
+        return {
+            year: mom.format("YYYY"),
+            month: mom.format("MM"),
+            day: mom.format("DD"),
+            date: mom.format("YYYY-MM-DD"),
+            weekday: mom.clone().locale("en").format("dddd"),
+            localWeekday: mom.format("dddd"),
+            isoWeekday: mom.isoWeekday(),
+            week: mom.format("WW"),
+            isoYear: mom.format("GGGG"),
+            quarter: mom.quarter(),
+            dayOfYear: mom.dayOfYear(),
+            isWeekend: mom.isoWeekday() > 5,
+            isFirstOfMonth: mom.date() === 1,
+            isLastOfMonth: mom.date() === mom.daysInMonth(),
+            scope: this.resolveScope(_scopeId)
+        };
+    }
+
+    /**
+     * Retrieves the (scoped) inline template for memos, which are injected into a journal entry.
+     *
+     * Supported variables: input, localTime, localDate, year, month, day, format, prevEntryLink, nextEntryLink
+     *
+     * Default value is: "- Memo: ${input}" (placed directly after the header)
+     *
+     * @param {Date} date the date used to resolve the date formats in the template
+     * @param {string} [_scopeId] identifier of the scope
+     * @returns {Q.Promise<InlineTemplate>} scoped inline template for memos
+     * @memberof Configuration
+     */
+    public getMemoInlineTemplate(date: Date, _scopeId?: string): Q.Promise<InlineTemplate> {
+        return this.getInlineTemplate("memo", "- Memo: ${input}", this.resolveScope(_scopeId))
+            .then((tpl: InlineTemplate) => this.replaceEntryLinks(tpl.template, date, _scopeId)
+                .then((value: string) => {
+                    tpl.value = this.replaceDateFormats(value, date);
+                    return tpl;
+                }));
+    }
 
-                return result;
+    /**
+     * Retrieves the (scoped) inline template for the time, e.g. used when stamping completed tasks.
+     *
+     * Supported variables: localTime, localDate, year, month, day, format
+     *
+     * Default value is: "${localTime}"
+     *
+     * @param {Date} date the date (and time) used to resolve the date formats in the template
+     * @param {string} [_scopeId] identifier of the scope
+     * @returns {Q.Promise<InlineTemplate>} scoped inline template for the time
+     * @memberof Configuration
+     */
+    public getTimeStringTemplate(date: Date, _scopeId?: string): Q.Promise<InlineTemplate> {
+        return this.getInlineTemplate("time", "${localTime}", this.resolveScope(_scopeId))
+            .then((tpl: InlineTemplate) => {
+                tpl.value = this.replaceDateFormats(tpl.template, date);
+                return tpl;
             });
     }
 
+    /**
+     * Retrieves the (scoped) inline template for links to new notes, which are injected into the journal entry
+     * of the day the note has been created.
+     *
+     * Supported variables: title, link, localTime, localDate, year, month, day, format, prevEntryLink, nextEntryLink
+     *
+     * Default value is: "- [${title}](${link})" (placed after "## Notes")
+     *
+     * @param {Date} date the date used to resolve the date formats in the template
+     * @param {string} [_scopeId] identifier of the scope
+     * @returns {Q.Promise<InlineTemplate>} scoped inline template for note links
+     * @memberof Configuration
+     */
+    public getNoteLinkInlineTemplate(date: Date, _scopeId?: string): Q.Promise<InlineTemplate> {
+        return this.getInlineTemplate("note-link", "- [${title}](${link})", this.resolveScope(_scopeId), "## Notes")
+            .then((tpl: InlineTemplate) => this.replaceEntryLinks(tpl.template, date, _scopeId)
+                .then((value: string) => {
+                    tpl.value = this.replaceDateFormats(value, date);
+                    return tpl;
+                }));
+    }
+
+    /**
+     * Retrieves the (scoped) inline template for tasks, which are injected into a journal entry.
+     *
+     * Supported variables: input, localTime, localDate, year, month, day, format, prevEntryLink, nextEntryLink
+     *
+     * Default value is: "- [ ] Task: ${input}" (placed after "## Tasks")
+     *
+     * @param {Date} date the date used to resolve the date formats in the template
+     * @param {string} [_scopeId] identifier of the scope
+     * @returns {Q.Promise<InlineTemplate>} scoped inline template for tasks
+     * @memberof Configuration
+     */
+    public getTaskInlineTemplate(date: Date, _scopeId?: string): Q.Promise<InlineTemplate> {
+        return this.getInlineTemplate("task", "- [ ] Task: ${input}", this.resolveScope(_scopeId), "## Tasks")
+            .then((tpl: InlineTemplate) => this.replaceEntryLinks(tpl.template, date, _scopeId)
+                .then((value: string) => {
+                    tpl.value = this.replaceDateFormats(value, date);
+                    return tpl;
+                }));
+    }
+
+    /**
+     * Retrieves the (scoped) inline template for time tracking lines, used by the commands to clock in and out. 
+     *
+     * Supported variables: start, end, duration, tags, input, localTime, localDate, year, month, day, format, prevEntryLink, nextEntryLink
+     *
+     * Default value is: "${start}-${end} | ${duration} | ${tags} | ${input}" after "## Work Log"
+     *
+     * @param {Date} date the date (and time) used to resolve the date formats in the template
+     * @param {string} [_scopeId] identifier of the scope
+     * @returns {Q.Promise<InlineTemplate>} scoped inline template for time tracking
+     * @memberof Configuration
+     */
+    public getTrackInlineTemplate(date: Date, _scopeId?: string): Q.Promise<InlineTemplate> {
+        return this.getInlineTemplate("track", "${start}-${end} | ${duration} | ${tags} | ${input}", this.resolveScope(_scopeId), "## Work Log")
+            .then((tpl: InlineTemplate) => this.replaceEntryLinks(tpl.template, date, _scopeId)
+                .then((value: string) => {
+                    tpl.value = this.replaceDateFormats(value, date);
+                    return tpl;
+                }));
+    }
+
+    /**
+     * If true, the journal entry is opened after a memo or task has been added through the smart input.
+     * Otherwise the entry stays closed and only a notification is shown.
+     */
+    public isOpenAfterInject(): boolean {
+        let res: boolean | undefined = this.config.get<boolean>('openAfterInject');
+        return (!isNullOrUndefined(res)) ? res! : false;
+    }
+
+    /**
+     * Open tasks of the most recent previous entry are copied (or moved) into a new entry for today. 
+     * 
+     * @param _scopeId default or individual
+     * @returns off (default), copy or move
+     */
+    public getCarryOverTasks(_scopeId?: string): CarryOverMode {
+        let mode: CarryOverMode | undefined = this.getScopeDefinition(_scopeId)?.carryOverTasks;
+        if (isNullOrUndefined(mode)) mode = this.config.get<CarryOverMode>('carryOverTasks');
+
+        return (mode === "copy" || mode === "move") ? mode : "off";
+    }
+
+    /**
+     * The number of days we look back for the previous entry when carrying over open tasks. 
+     * 
+     * @param _scopeId default or individual
+     * @returns number of days, defaults to 7
+     */
+    public getCarryOverLookBack(_scopeId?: string): number {
+        let days: number | undefined = this.getScopeDefinition(_scopeId)?.carryOverLookBack;
+        if (isNullOrUndefined(days)) days = this.config.get<number>('carryOverLookBack');
+
+        return (!isNullOrUndefined(days) && days! > 0) ? days! : 7;
+    }
+
+    /**
+     * The format of durations printed by the command "Print elapsed hours"
+     * 
+     * @returns "decimal" (default), "hh:mm" or "minutes"
+     */
+    public getDurationFormat(): DurationFormat {
+        let format: DurationFormat | undefined = this.config.get<DurationFormat>('durationFormat');
+        return (format === "hh:mm" || format === "minutes") ? format : "decimal";
+    }
+
     public isDevelopmentModeEnabled(): boolean {
         let dev: boolean | undefined = this.config.get<boolean>('dev');
         return (!isNullOrUndefined(dev)) ? dev! : false;
@@ -590,6 +1091,28 @@ export class Configuration {
         return (isNullOrUndefined(_scopeId) || (_scopeId!.length === 0)) ? SCOPE_DEFAULT : _scopeId!;
     }
 
+    /**
+     * Returns the definition of the scope in the settings (undefined for the default scope or unknown scopes). 
+     * 
+     * @param _scopeId 
+     */
+    private getScopeDefinition(_scopeId?: string): ScopeDefinition | undefined {
+        let scope: string = this.resolveScope(_scopeId);
+        if (scope == SCOPE_DEFAULT) return undefined;
+
+        return this.getScopeDefinitions().filter(sd => sd.name == scope).pop();
+    }
+
+    /**
+     * Returns the scopes in the settings, scopes without a name are ignored (as is "journal.scopes" if it isn't a list). 
+     */
+    private getScopeDefinitions(): ScopeDefinition[] {
+        let scopes: ScopeDefinition[] | undefined = this.config.get<ScopeDefinition[]>("scopes");
+        if (!Array.isArray(scopes)) return [];
+
+        return scopes.filter(sd => !isNullOrUndefined(sd) && Util.stringIsNotEmpty(sd.name));
+    }
+
     // /**
     //  * Returns the pattern with the given id (loads them from vscode config if needed)
     //  * 
@@ -612,9 +1135,59 @@ export class Configuration {
     //     });
     // }
 
+    /**
+     * Replaces the variables defined by the user in "journal.variables" (their values may contain any other variable), 
+     * environment variables (${env:NAME}) and settings (${config:NAME}, e.g. ${config:journal.ext}). 
+     * 
+     * @param value the pattern or template
+     * @throws {Error} if an environment variable or setting doesn't exist
+     */
+    private replaceCustomVariables(value: string): string {
+        let variables: { [name: string]: string } = this.config.get<{ [name: string]: string }>("variables") || {};
+
+        // values of variables might reference other variables
+        for (let depth = 0; depth < 5; depth++) {
+            let previous: string = value;
+            Object.keys(variables).forEach(name => value = value.split("${" + name + "}").join(String(variables[name])));
+            if (previous === value) break;
+        }
+
+        return value.replace(/\$\{(env|config):([^}]+)\}/g, (match: string, type: string, name: string) => {
+            if (type === "env") {
+                let env: string | undefined = process.env[name];
+                if (isUndefined(env)) throw new Error("Unresolved variable " + match + ": the environment variable '" + name + "' is not set.");
+                return env;
+            }
+
+            let setting: unknown = vscode.workspace.getConfiguration().get(name);
+            if (isNullOrUndefined(setting) || typeof setting === "object") throw new Error("Unresolved variable " + match + ": the setting '" + name + "' has no value.");
+            return String(setting);
+        });
+    }
+
+    /**
+     * Makes sure all variables in a path or pattern have been resolved. 
+     * 
+     * @param value the resolved path or pattern
+     * @param setting the name of the setting (for the error message)
+     * @param _scopeId the scope of the setting
+     * @param ignore variables which are resolved later
+     * @throws {Error} naming the first unresolved variable
+     */
+    private checkUnresolvedVariables(value: string, setting: string, _scopeId?: string, ignore: string[] = []): void {
+        let unresolved: string | undefined = (value.match(/\$\{[^}]*\}/g) || [])
+            .find(variable => ignore.indexOf(variable.substring(2, variable.length - 1)) < 0);
+
+        if (!isUndefined(unresolved)) {
+            let scope: string = this.resolveScope(_scopeId);
+            throw new Error("Unresolved variable " + unresolved + " in the " + setting + ((scope != SCOPE_DEFAULT) ? " of scope '" + scope + "'" : "") +
+                ". Check the spelling or define the variable in 'journal.variables'.");
+        }
+    }
+
     private replaceVariableValue(key: string, value: string, template: string): string {
         if (template.search("\\$\\{" + key + "\\}") >= 0) {
-            return template.replace("${" + key + "}", value);
+            return template.split("${" + key + "}").join(value);
         } else {
             return template;
         }
@@ -623,7 +1196,7 @@ export class Configuration {
     private replaceVariableInTemplate(key: string, value: string, st: ScopedTemplate): void {
         if (Util.stringIsNotEmpty(st.template)) {
             if (st.template!.search("\\$\\{" + key + "\\}") >= 0) {
-                st.template = st.template!.replace("${" + key + "}", value);
+                st.template = st.template!.split("${" + key + "}").join(value);
             }
         } else {
             console.error("Tried to replace variable in empty string.")
@@ -634,49 +1207,62 @@ export class Configuration {
 
 
     /**
-     * 
-     * @param _id 
-     * @param _defaultValue 
-     * @param _scopeId 
+     *
+     * @param _id
+     * @param _defaultValue
+     * @param _scopeId
+     * @param _defaultAfter where to place the template if nothing is configured (default is after the header)
      */
-    private getInlineTemplate(_id: string, _defaultValue: string, _scopeId: string): Q.Promise<InlineTemplate> {
+    private getInlineTemplate(_id: string, _defaultValue: string, _scopeId: string, _defaultAfter: string = '', _context?: Util.TemplateContext): Q.Promise<InlineTemplate> {
         return Q.Promise<InlineTemplate>((resolve, reject) => {
             try {
                 let scope = this.resolveScope(_scopeId);
 
-                // legacy mode, support old config values
-                if (Util.stringIsNotEmpty(this.config.get<string>("tpl-" + _id))) {
+                // legacy mode, support old config values (until they are migrated with "journal.migrateSettings")
+                let legacy = Util.LEGACY_TEMPLATE_SETTINGS.find(legacy => legacy.name == _id);
+                if (!isUndefined(legacy) && Util.stringIsNotEmpty(this.config.get<string>(legacy.key))) {
                     resolve({
                         name: _id,
                         scope: SCOPE_DEFAULT,
-                        template: this.config.get<string>("tpl-" + _id)!,
-                        after: Util.stringIsNotEmpty(this.config.get<string>(_id + '-after')) ? this.config.get<string>(_id + '-after')! : ''
+                        template: this.config.get<string>(legacy.key)!,
+                        after: legacy.after.map(key => this.config.get<string>(key)).find(after => Util.stringIsNotEmpty(after)) || ''
                     });
 
                     return;
                 };
 
 
-                let pattern: InlineTemplate | undefined;
-                if (scope == SCOPE_DEFAULT) {
-                    pattern = this.config.get<InlineTemplate[]>("templates")?.filter(tpl => tpl.name == _id).pop();
-                } else {
-                    // a scope was requested
-                    this.config.get<ScopeDefinition[]>("scopes")?.filter(sd => sd.name = scope).pop()?.templates?.filter(tpl => tpl.name == _id)?.pop();
-                }
+                // scopes without this template use the one of the default scope
+                let pattern: InlineTemplate | undefined = this.findTemplate(_id, this.getScopeDefinition(scope)?.templates, _context)
+                    || this.findTemplate(_id, this.config.get<InlineTemplate[]>("templates"), _context);
 
                 if (Util.isNullOrUndefined(pattern)) {
                     resolve({
                         name: _id,
                         scope: SCOPE_DEFAULT,
                         template: _defaultValue,
-                        after: ''
+                        after: _defaultAfter
                     })
                 } else {
-                    // safeguards which should never trigger
-                    if (Util.isNullOrUndefined(pattern?.after)) pattern!.after = '';
-                    if (Util.isNullOrUndefined(pattern?.template)) pattern!.after = _defaultValue;
-                    resolve(pattern!)
+                    // copy, the values returned by the vscode configuration are read-only
+                    let template: InlineTemplate = Object.assign({}, pattern!);
+                    if (Util.isNullOrUndefined(template.after)) template.after = '';
+                    if (Util.isNullOrUndefined(template.template)) template.template = _defaultValue;
+
+                    if (!Util.stringIsNotEmpty(template.file)) {
+                        template.template = this.replaceCustomVariables(template.template);
+                        resolve(template);
+                        return;
+                    }
+
+                    this.loadTemplateFile(template.file!, scope)
+                        .then((content: string | undefined) => {
+                            if (!isUndefined(content)) template.template = content;
+                            template.template = this.replaceCustomVariables(template.template);
+                            resolve(template);
+                        })
+                        .catch(reject)
+                        .done();
                 }
             } catch (error) {
                 reject(error);
@@ -685,6 +1271,103 @@ export class Configuration {
         });
     }
 
+    /**
+     * Looks for the template with the given name in the list of templates. Variants with a condition ("when") are 
+     * preferred if the condition holds for the context. 
+     */
+    private findTemplate(_id: string, _templates: InlineTemplate[] | undefined, _context?: Util.TemplateContext): InlineTemplate | undefined {
+        let candidates: InlineTemplate[] = (_templates || []).filter(tpl => tpl.name == _id);
+        return candidates.find(tpl => Util.stringIsNotEmpty(tpl.when) && !isUndefined(_context) && Util.evaluateCondition(tpl.when!, _context!))
+            || candidates.filter(tpl => !Util.stringIsNotEmpty(tpl.when)).pop();
+    }
+
+    /**
+     * Renders the blocks ({{#if}}, {{#each}}, {{> include}}) of the template. Included templates are either 
+     * templates in the settings (by name) or template files (paths ending with ".md"). 
+     *
+     * @param _template the template
+     * @param _context the values used in the template
+     * @param _scopeId the scope, used to find the included templates
+     * @returns the template without blocks (the variables are still to be replaced)
+     */
+    private renderBlocks(_template: string, _context: Util.TemplateContext, _scopeId: string): Q.Promise<string> {
+        let includes: Map<string, string> = new Map();
+
+        let load = (template: string, depth: number): Q.Promise<void> => {
+            if (depth > 10) return Q.resolve<void>(undefined);
+
+            return Q.all(Util.findIncludes(template)
+                .filter(name => !includes.has(name))
+                .map(name => {
+                    let loaded: Q.Promise<string | undefined>;
+                    if (name.endsWith(".md") || name.indexOf("/") >= 0) {
+                        loaded = this.loadTemplateFile(name, _scopeId)
+                            .then(content => isUndefined(content) ? content : this.replaceCustomVariables(content));
+                    } else {
+                        let pattern: InlineTemplate | undefined = this.findTemplate(name, this.getScopeDefinition(_scopeId)?.templates, _context)
+                            || this.findTemplate(name, this.config.get<InlineTemplate[]>("templates"), _context);
+                        loaded = isUndefined(pattern) ? Q.resolve<string | undefined>(undefined) :
+                            this.getInlineTemplate(name, "", _scopeId, '', _context).then(tpl => tpl.template);
+                    }
+
+                    return loaded.then((content: string | undefined) => {
+                        if (isUndefined(content) || includes.has(name)) return;
+                        includes.set(name, content);
+                        return load(content, depth + 1);
+                    });
+                }))
+                .then(() => { });
+        };
+
+        return load(_template, 0).then(() => Util.renderTemplate(_template, _context, includes));
+    }
+
+    /**
+     * Reads the template from the file (variables ${base} and ${homeDir} are supported, relative paths are resolved 
+     * against the base path of the scope). The content is cached until the file is modified. A trailing line break 
+     * is ignored for templates with a single line (e.g. tasks or memos). 
+     *
+     * @param _file the path of the template file
+     * @param _scopeId the scope of the template
+     * @returns the template, or undefined if the file can't be read (the template string is used instead and the user is warned)
+     * @throws {Error} (rejected) if a variable in the path can't be resolved
+     */
+    private loadTemplateFile(_file: string, _scopeId: string): Q.Promise<string | undefined> {
+        let path: string;
+        try {
+            path = this.replaceCustomVariables(_file);
+            path = this.replaceVariableValue("homeDir", os.homedir(), path);
+            path = this.replaceVariableValue("base", this.getBasePath(_scopeId), path);
+            this.checkUnresolvedVariables(path, "template file", _scopeId);
+            path = Path.resolve(this.getBasePath(_scopeId), path);
+        } catch (error) {
+            return Q.reject<string | undefined>(error);
+        }
+
+        // only files which can't be read fall back to the template string
+        return Q.nfcall<fs.Stats>(fs.stat, path)
+            .then((stats: fs.Stats) => {
+                let cached = this.templateFiles.get(path);
+                if (!isUndefined(cached) && cached.mtime === stats.mtimeMs) return cached.content;
+
+                return Q.nfcall<string>(fs.readFile, path, 'utf-8').then((content: string) => {
+                    if (content.trim().indexOf("\n") < 0) content = content.replace(/\r?\n$/, "");
+
+                    this.templateFiles.set(path, { mtime: stats.mtimeMs, content: content });
+                    this.missingTemplateFiles.delete(path);
+                    return content;
+                });
+            })
+            .catch((error: Error) => {
+                this.templateFiles.delete(path);
+                if (!this.missingTemplateFiles.has(path)) {
+                    this.missingTemplateFiles.add(path);
+                    vscode.window.showWarningMessage("Failed to read the template file " + path + ", the template string is used instead. " + error.message);
+                }
+                return undefined;
+            });
+    }
+
 
     // /** 
     //  * Loads the patterns if needed from the vscode configuration. 
@@ -24,5 +24,14 @@ export {
     InlineTemplate, 
     ScopedTemplate, 
     HeaderTemplate, 
+    CarryOverMode,
     SCOPE_DEFAULT
 } from './conf';
+export { LocalePack, LocalePackDefinition } from './locales';
+export { TaskTreeProvider, TaskTreeItem } from './tasks';
+export { TagTreeProvider, TagTreeItem } from './tags';
+export { RetrospectiveTreeProvider } from './retrospective';
+export { taskStatesPlugin } from './markdown';
+export { Clock } from './clock';
+export { Calendar } from './calendar';
+export { SettingsValidator } from './settings';
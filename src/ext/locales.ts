@@ -0,0 +1,244 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import { DateVocabulary, ENGLISH_DATE_VOCABULARY } from '../util/dates';
+
+/**
+ * The words understood by the smart input for one language: shortcuts (today, tomorrow, yesterday),
+ * weekday names, next/last modifiers, task and note flags and the words of the relative date grammar.
+ */
+export interface LocalePack extends DateVocabulary {
+    /** language of the pack, matched against the beginning of journal.locale (e.g. "fr" for "fr-CA") */
+    locale: string;
+    /** flags marking a task in the smart input, e.g. "task" */
+    task: string[];
+    /** flags creating a note from the smart input, e.g. "note" */
+    note: string[];
+}
+
+/** types in the settings.json, every key of a user defined pack is optional */
+export type LocalePackDefinition = Partial<LocalePack> & { locale: string };
+
+
+export const ENGLISH: LocalePack = Object.assign({
+    locale: "en",
+    task: ["task", "todo"],
+    note: ["note"]
+}, ENGLISH_DATE_VOCABULARY);
+
+export const GERMAN: LocalePack = {
+    locale: "de",
+    task: ["aufgabe"],
+    note: ["notiz"],
+    today: ["heute"],
+    tomorrow: ["morgen"],
+    yesterday: ["gestern"],
+    next: ["nächste", "nächsten", "nächster", "nächstes", "nächstem", "kommende", "kommenden", "kommendem"],
+    last: ["letzte", "letzten", "letzter", "letztes", "letztem", "vorige", "vorigen", "vorigem"],
+    this: ["diese", "diesen", "dieser", "dieses"],
+    in: ["in"],
+    ago: [],
+    agoPrefix: ["vor"],
+    after: ["nach"],
+    before: ["vor"],
+    of: ["der", "des", "im", "vom", "von"],
+    start: ["anfang", "beginn"],
+    end: ["ende"],
+    one: ["ein", "eine", "einem", "einer"],
+    units: {
+        day: ["tag", "tage", "tagen", "tages"],
+        week: ["woche", "wochen"],
+        month: ["monat", "monate", "monaten", "monats"],
+        year: ["jahr", "jahre", "jahren", "jahres"]
+    },
+    ordinals: [
+        ["erste", "erster", "ersten"],
+        ["zweite", "zweiter", "zweiten"],
+        ["dritte", "dritter", "dritten"],
+        ["vierte", "vierter", "vierten"],
+        ["fünfte", "fünfter", "fünften"]
+    ],
+    weekdays: [["montag"], ["dienstag"], ["mittwoch"], ["donnerstag"], ["freitag"], ["samstag"], ["sonntag"]],
+    months: [
+        ["januar", "jan"],
+        ["februar", "feb"],
+        ["märz", "mär"],
+        ["april", "apr"],
+        ["mai"],
+        ["juni", "jun"],
+        ["juli", "jul"],
+        ["august", "aug"],
+        ["september", "sep"],
+        ["oktober", "okt"],
+        ["november", "nov"],
+        ["dezember", "dez"]
+    ]
+};
+
+export const FRENCH: LocalePack = {
+    locale: "fr",
+    task: ["tâche", "tache"],
+    note: ["note"],
+    today: ["aujourd'hui", "auj"],
+    tomorrow: ["demain"],
+    yesterday: ["hier"],
+    next: ["prochain", "prochaine"],
+    last: ["dernier", "dernière", "passé", "passée"],
+    this: ["ce", "cette"],
+    in: ["dans"],
+    ago: [],
+    agoPrefix: ["il y a"],
+    after: ["après"],
+    before: ["avant"],
+    of: ["de la", "de", "du"],
+    start: ["début"],
+    end: ["fin"],
+    one: ["un", "une"],
+    units: {
+        day: ["jour", "jours"],
+        week: ["semaine", "semaines"],
+        month: ["mois"],
+        year: ["an", "ans", "année", "années"]
+    },
+    ordinals: [["premier", "première"], ["deuxième", "second", "seconde"], ["troisième"], ["quatrième"], ["cinquième"]],
+    weekdays: [
+        ["lundi", "lun"],
+        ["mardi", "mar"],
+        ["mercredi", "mer"],
+        ["jeudi", "jeu"],
+        ["vendredi", "ven"],
+        ["samedi", "sam"],
+        ["dimanche", "dim"]
+    ],
+    months: [
+        ["janvier", "janv"],
+        ["février", "févr"],
+        ["mars"],
+        ["avril", "avr"],
+        ["mai"],
+        ["juin"],
+        ["juillet", "juil"],
+        ["août"],
+        ["septembre", "sept"],
+        ["octobre", "oct"],
+        ["novembre", "nov"],
+        ["décembre", "déc"]
+    ],
+    postfix: true
+};
+
+export const SPANISH: LocalePack = {
+    locale: "es",
+    task: ["tarea"],
+    note: ["nota"],
+    today: ["hoy"],
+    tomorrow: ["mañana"],
+    yesterday: ["ayer"],
+    next: ["próximo", "próxima", "siguiente", "que viene"],
+    last: ["pasado", "pasada", "último", "última"],
+    this: ["este", "esta"],
+    in: ["dentro de", "en"],
+    ago: [],
+    agoPrefix: ["hace"],
+    after: ["después de"],
+    before: ["antes de"],
+    of: ["de", "del"],
+    start: ["principio", "inicio", "comienzo"],
+    end: ["fin", "final"],
+    one: ["un", "una"],
+    units: {
+        day: ["día", "días", "dia", "dias"],
+        week: ["semana", "semanas"],
+        month: ["mes", "meses"],
+        year: ["año", "años"]
+    },
+    ordinals: [["primer", "primero", "primera"], ["segundo", "segunda"], ["tercer", "tercero", "tercera"], ["cuarto", "cuarta"], ["quinto", "quinta"]],
+    weekdays: [
+        ["lunes", "lun"],
+        ["martes", "mar"],
+        ["miércoles", "miercoles", "mié"],
+        ["jueves", "jue"],
+        ["viernes", "vie"],
+        ["sábado", "sabado", "sáb"],
+        ["domingo", "dom"]
+    ],
+    months: [
+        ["enero", "ene"],
+        ["febrero", "feb"],
+        ["marzo", "mar"],
+        ["abril", "abr"],
+        ["mayo"],
+        ["junio", "jun"],
+        ["julio", "jul"],
+        ["agosto", "ago"],
+        ["septiembre", "sep"],
+        ["octubre", "oct"],
+        ["noviembre", "nov"],
+        ["diciembre", "dic"]
+    ],
+    postfix: true
+};
+
+export const BUILTIN_LOCALE_PACKS: LocalePack[] = [ENGLISH, GERMAN, FRENCH, SPANISH];
+
+
+/**
+ * Merges the words of the given pack into the target (the words of the pack come first). Keys missing
+ * in the pack (e.g. in user defined packs) are ignored.
+ *
+ * @param target the pack to extend
+ * @param pack the (possibly incomplete) pack with additional words
+ * @returns the extended target
+ */
+export function mergeLocalePack(target: LocalePack, pack: LocalePackDefinition): LocalePack {
+    let words = (a: string[], b?: string[]) => (b || []).map(w => w.toLowerCase()).concat(a);
+    let lists = (a: string[][], b?: string[][]) => a.map((w, index) => words(w, (b || [])[index]));
+
+    return {
+        locale: pack.locale,
+        task: words(target.task, pack.task),
+        note: words(target.note, pack.note),
+        today: words(target.today, pack.today),
+        tomorrow: words(target.tomorrow, pack.tomorrow),
+        yesterday: words(target.yesterday, pack.yesterday),
+        next: words(target.next, pack.next),
+        last: words(target.last, pack.last),
+        this: words(target.this, pack.this),
+        in: words(target.in, pack.in),
+        ago: words(target.ago, pack.ago),
+        agoPrefix: words(target.agoPrefix, pack.agoPrefix),
+        after: words(target.after, pack.after),
+        before: words(target.before, pack.before),
+        of: words(target.of, pack.of),
+        start: words(target.start, pack.start),
+        end: words(target.end, pack.end),
+        one: words(target.one, pack.one),
+        units: {
+            day: words(target.units.day, pack.units?.day),
+            week: words(target.units.week, pack.units?.week),
+            month: words(target.units.month, pack.units?.month),
+            year: words(target.units.year, pack.units?.year)
+        },
+        ordinals: lists(target.ordinals, pack.ordinals),
+        weekdays: lists(target.weekdays, pack.weekdays),
+        months: lists(target.months, pack.months),
+        postfix: (pack.postfix !== undefined) ? pack.postfix : target.postfix
+    };
+}
@@ -0,0 +1,78 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+
+'use strict';
+
+/**
+ * The task states beyond open ("[ ]") and completed ("[x]"), which are already rendered by markdown-it-task-checkbox
+ */
+const RENDERED_STATES: { [marker: string]: { name: string, symbol: string, title: string } } = {
+    "/": { name: "inprogress", symbol: "◐", title: "In progress" },
+    "-": { name: "cancelled", symbol: "✗", title: "Cancelled" },
+    ">": { name: "deferred", symbol: "➜", title: "Deferred" }
+};
+
+/** the parts of the markdown-it API used by the plugin (markdown-it has no bundled types) */
+interface MarkdownToken {
+    type: string;
+    content: string;
+    children: MarkdownToken[];
+    attrJoin(name: string, value: string): void;
+}
+
+interface MarkdownCoreState {
+    tokens: MarkdownToken[];
+    Token: new (type: string, tag: string, nesting: number) => MarkdownToken;
+}
+
+interface MarkdownIt {
+    core: { ruler: { after(afterName: string, ruleName: string, rule: (state: MarkdownCoreState) => void): void } };
+}
+
+const TASK_STATE_EXPRESSION: RegExp = /^\[([\/\->])\][ \u00A0]/;
+
+/**
+ * Markdown-it plugin to render the extended task states "[/]" (in progress), "[-]" (cancelled) and "[>]" (deferred) 
+ * in the markdown preview. The checkbox is replaced with a symbol, and the list item gets the class 
+ * "journal-task-<state>" (see res/styles/preview.css). 
+ *
+ * @param md the markdown-it instance of the markdown preview
+ */
+export function taskStatesPlugin(md: MarkdownIt): void {
+    md.core.ruler.after('inline', 'journal-task-states', (state: MarkdownCoreState) => {
+        let tokens: MarkdownToken[] = state.tokens;
+
+        for (let i = 2; i < tokens.length; i++) {
+            let token: MarkdownToken = tokens[i];
+            if (token.type !== 'inline' || tokens[i - 1].type !== 'paragraph_open' || tokens[i - 2].type !== 'list_item_open') continue;
+
+            let match: RegExpMatchArray | null = token.content.match(TASK_STATE_EXPRESSION);
+            if (match === null || token.children.length === 0 || token.children[0].type !== 'text') continue;
+
+            let taskState = RENDERED_STATES[match[1]];
+            token.children[0].content = token.children[0].content.slice(3);
+
+            let marker = new state.Token('html_inline', '', 0);
+            marker.content = '<span class="journal-task-marker" title="' + taskState.title + '">' + taskState.symbol + '</span>';
+            token.children.unshift(marker);
+
+            tokens[i - 2].attrJoin('class', 'task-list-item journal-task journal-task-' + taskState.name);
+        }
+    });
+}
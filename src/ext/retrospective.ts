@@ -0,0 +1,71 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import * as Q from 'q';
+import * as J from '../.';
+import moment = require('moment');
+
+/**
+ * Provides the journal entries of one week, one month, six months and every year ago for the tree view "journal.onThisDay"
+ */
+export class RetrospectiveTreeProvider implements vscode.TreeDataProvider<J.Util.RetrospectiveEntry> {
+
+    private _onDidChangeTreeData: vscode.EventEmitter<J.Util.RetrospectiveEntry | undefined> = new vscode.EventEmitter<J.Util.RetrospectiveEntry | undefined>();
+    readonly onDidChangeTreeData: vscode.Event<J.Util.RetrospectiveEntry | undefined> = this._onDidChangeTreeData.event;
+
+    constructor(public ctrl: J.Util.Ctrl) {
+    }
+
+    /**
+     * Collects the entries again (e.g. after midnight) and updates the view
+     */
+    public refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public getTreeItem(entry: J.Util.RetrospectiveEntry): vscode.TreeItem {
+        moment.locale(this.ctrl.config.getLocale());
+
+        let item = new vscode.TreeItem(entry.label, vscode.TreeItemCollapsibleState.None);
+        item.description = moment(entry.date).format("ddd, LL");
+        item.tooltip = entry.excerpt;
+        item.iconPath = new vscode.ThemeIcon("history");
+        item.command = {
+            command: "vscode.open",
+            title: "Open Entry",
+            arguments: [vscode.Uri.file(entry.path)]
+        };
+        return item;
+    }
+
+    public getChildren(element?: J.Util.RetrospectiveEntry): Thenable<J.Util.RetrospectiveEntry[]> {
+        if (element !== undefined) {
+            return Q.resolve([]);
+        }
+
+        return this.ctrl.reader.getRetrospective(new Date())
+            .catch(error => {
+                this.ctrl.logger.error("Failed to collect the entries of this day.", error);
+                return [];
+            });
+    }
+
+}
@@ -0,0 +1,309 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import * as Q from 'q';
+import * as J from '../.';
+import * as fs from 'fs';
+import { isUndefined } from 'util';
+
+/**
+ * One of the settings.json with journal settings: the user settings, the workspace settings or the settings 
+ * of a folder in a multi-root workspace
+ */
+interface SettingsTarget {
+    target: vscode.ConfigurationTarget;
+    label: string;
+    /** the settings.json (or the .code-workspace file) */
+    uri?: vscode.Uri;
+    folder?: vscode.WorkspaceFolder;
+}
+
+interface SettingsTargetProblem extends J.Util.SettingsProblem {
+    settings: SettingsTarget;
+}
+
+// the settings checked in every settings.json (besides the deprecated ones)
+const VALIDATED_SETTINGS: string[] = ["base", "patterns", "variables", "scopes", "templates"];
+
+const MIGRATE_HINT: string = " Run 'Journal: Migrate Settings' to fix it.";
+
+
+/**
+ * Checks the journal settings at startup (and whenever they change). Problems are shown as diagnostics in the 
+ * settings.json of the workspace (and its folders), the user is notified of problems in the user settings. All 
+ * problems are logged in the output channel "Journal". Deprecated settings are rewritten to the current schema 
+ * with the command "journal.migrateSettings". 
+ */
+export class SettingsValidator implements vscode.Disposable {
+
+    private diagnostics: vscode.DiagnosticCollection;
+    private lastReport: string = "";
+
+    constructor(public ctrl: J.Util.Ctrl) {
+        this.diagnostics = vscode.languages.createDiagnosticCollection("journal");
+    }
+
+    public dispose(): void {
+        this.diagnostics.dispose();
+    }
+
+    /**
+     * Validates the settings of all settings.json files, publishes the problems as diagnostics and logs them. 
+     *
+     * @returns {Q.Promise<J.Util.SettingsProblem[]>} the problems
+     * @memberof SettingsValidator
+     */
+    public validate(): Q.Promise<J.Util.SettingsProblem[]> {
+        this.ctrl.logger.trace("Entering validate() in ext/settings.ts");
+
+        let problems: SettingsTargetProblem[] = [];
+        let variables: string[] = Object.keys(vscode.workspace.getConfiguration("journal").get<{ [name: string]: string }>("variables") || {});
+        this.getTargets().forEach(settings => {
+            J.Util.validateSettings(this.readSettings(settings), variables)
+                .forEach(problem => problems.push(Object.assign(problem, { settings: settings })));
+        });
+
+        return this.validateVariables()
+            .then(unresolved => {
+                problems.push(...unresolved);
+                this.log(problems);
+                return this.publish(problems);
+            })
+            .then(() => problems);
+    }
+
+    /**
+     * Rewrites the deprecated settings in all settings.json files (after a confirmation). 
+     *
+     * @returns {Q.Promise<number>} the number of changed settings
+     * @memberof SettingsValidator
+     */
+    public migrate(): Q.Promise<number> {
+        this.ctrl.logger.trace("Entering migrate() in ext/settings.ts");
+
+        let migrations: { settings: SettingsTarget, changes: J.Util.JournalSettings }[] = this.getTargets()
+            .map(settings => ({
+                settings: settings,
+                changes: J.Util.migrateSettings(this.readSettings(settings), this.getConfiguration(settings).inspect<unknown[]>("templates")?.defaultValue || [])
+            }))
+            .filter(migration => Object.keys(migration.changes).length > 0);
+
+        if (migrations.length === 0) {
+            vscode.window.showInformationMessage("The journal settings are up to date.");
+            return Q.resolve(0);
+        }
+
+        let keys: string[] = [];
+        migrations.forEach(migration => Object.keys(migration.changes)
+            .map(key => "journal." + key)
+            .filter(key => keys.indexOf(key) < 0)
+            .forEach(key => keys.push(key)));
+
+        return Q(vscode.window.showWarningMessage("Migrate the journal settings " + keys.join(", ") + " (in the " + migrations.map(migration => migration.settings.label).join(" and ") + ")?", { modal: true }, "Migrate"))
+            .then(choice => {
+                if (choice !== "Migrate") return 0;
+
+                // the updates of a settings.json have to be written one after another
+                let count: number = 0;
+                return migrations.reduce((previous, migration) => previous.then(() => {
+                    let config: vscode.WorkspaceConfiguration = this.getConfiguration(migration.settings);
+                    return Object.keys(migration.changes).reduce((written, key) => written
+                        .then(() => Q(config.update(key, migration.changes[key], migration.settings.target)))
+                        .then(() => { count++; }), Q.resolve<void>(undefined));
+                }), Q.resolve<void>(undefined))
+                    .then(() => {
+                        this.ctrl.logger.debug("Migrated the journal settings: ", keys.join(", "));
+                        vscode.window.showInformationMessage("The journal settings have been migrated, reload the window to apply them.", "Reload Window")
+                            .then(action => { if (action === "Reload Window") vscode.commands.executeCommand("workbench.action.reloadWindow"); });
+                        return count;
+                    });
+            });
+    }
+
+    /**
+     * The settings.json files: user settings, workspace settings and (in multi-root workspaces) folder settings
+     */
+    private getTargets(): SettingsTarget[] {
+        // the location of the user settings isn't known (it depends on profiles, portable installs and remote hosts), 
+        // their problems are shown in the output channel only
+        let targets: SettingsTarget[] = [{
+            target: vscode.ConfigurationTarget.Global,
+            label: "user settings"
+        }];
+
+        let folders: readonly vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders || [];
+        let workspaceFile: vscode.Uri | undefined = vscode.workspace.workspaceFile;
+        if (!isUndefined(workspaceFile)) {
+            targets.push({
+                target: vscode.ConfigurationTarget.Workspace,
+                label: "workspace settings",
+                uri: (workspaceFile.scheme === "file") ? workspaceFile : undefined
+            });
+            folders.forEach(folder => targets.push({
+                target: vscode.ConfigurationTarget.WorkspaceFolder,
+                label: "settings of the folder '" + folder.name + "'",
+                uri: vscode.Uri.joinPath(folder.uri, ".vscode", "settings.json"),
+                folder: folder
+            }));
+        } else if (folders.length > 0) {
+            targets.push({
+                target: vscode.ConfigurationTarget.Workspace,
+                label: "workspace settings",
+                uri: vscode.Uri.joinPath(folders[0].uri, ".vscode", "settings.json")
+            });
+        }
+
+        return targets;
+    }
+
+    private getConfiguration(settings: SettingsTarget): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration("journal", settings.folder?.uri);
+    }
+
+    /**
+     * Returns the journal settings defined in the settings.json (without the values inherited from other settings)
+     */
+    private readSettings(settings: SettingsTarget): J.Util.JournalSettings {
+        let config: vscode.WorkspaceConfiguration = this.getConfiguration(settings);
+        let values: J.Util.JournalSettings = {};
+
+        VALIDATED_SETTINGS.concat(J.Util.LEGACY_SETTINGS).forEach(key => {
+            let inspect = config.inspect<unknown>(key);
+            let value: unknown;
+            switch (settings.target) {
+                case vscode.ConfigurationTarget.Global: value = inspect?.globalValue; break;
+                case vscode.ConfigurationTarget.Workspace: value = inspect?.workspaceValue; break;
+                case vscode.ConfigurationTarget.WorkspaceFolder: value = inspect?.workspaceFolderValue; break;
+            }
+            if (!isUndefined(value)) values[key] = value;
+        });
+        return values;
+    }
+
+    /**
+     * Resolves the base paths and patterns of all scopes, unresolved variables are reported for the settings.json 
+     * which defines the base path or pattern. 
+     */
+    private validateVariables(): Q.Promise<SettingsTargetProblem[]> {
+        let config = new J.Extension.Configuration(vscode.workspace.getConfiguration("journal"));
+        let targets: SettingsTarget[] = this.getTargets();
+        let today: Date = new Date();
+
+        let checks: Q.Promise<SettingsTargetProblem | undefined>[] = [];
+        config.getScopes().forEach(scope => {
+            let key: string = (scope == J.Extension.SCOPE_DEFAULT) ? "base" : "scopes";
+            let check = (setting: string, resolve: () => Q.Promise<unknown>) => checks.push(Q.fcall(resolve)
+                .then(() => undefined)
+                .catch((error: Error) => this.toProblem(setting, error.message, targets)));
+
+            check(key, () => Q.resolve(config.getBasePath(scope)));
+            key = (scope == J.Extension.SCOPE_DEFAULT) ? "patterns" : "scopes";
+            check(key, () => config.getEntryPathPattern(today, scope));
+            check(key, () => config.getEntryFilePattern(today, scope));
+            check(key, () => config.getNotesPathPattern(today, scope));
+            check(key, () => config.getNotesFilePattern(today, "", scope));
+        });
+
+        return Q.all(checks).then(problems => {
+            let messages: string[] = [];
+            return <SettingsTargetProblem[]>problems.filter(problem => {
+                if (isUndefined(problem) || messages.indexOf(problem.message) >= 0) return false;
+                messages.push(problem.message);
+                return true;
+            });
+        });
+    }
+
+    /**
+     * The problem is reported for the most specific settings.json defining the setting
+     */
+    private toProblem(key: string, message: string, targets: SettingsTarget[]): SettingsTargetProblem {
+        let settings: SettingsTarget = targets.filter(target => !isUndefined(this.readSettings(target)[key])).pop() || targets[0];
+        return { key: "journal." + key, message: message, severity: "error", migratable: false, settings: settings };
+    }
+
+    /**
+     * Writes the problems into the output channel (only if they have changed since the last validation). The user is 
+     * notified of problems which can't be shown in a settings.json (deprecated settings are reported at startup). 
+     */
+    private log(problems: SettingsTargetProblem[]): void {
+        let report: string = problems.map(problem => problem.settings.label + problem.key + problem.message).join("\n");
+        if (report === this.lastReport) return;
+        this.lastReport = report;
+
+        problems.forEach(problem => {
+            let message: string = problem.key + " (" + problem.settings.label + "): " + problem.message + (problem.migratable ? MIGRATE_HINT : "");
+            if (problem.severity === "error") this.ctrl.logger.error(message);
+            else this.ctrl.logger.warn(message);
+        });
+
+        let labels: string[] = [];
+        problems
+            .filter(problem => isUndefined(problem.settings.uri) && !problem.migratable)
+            .forEach(problem => { if (labels.indexOf(problem.settings.label) < 0) labels.push(problem.settings.label); });
+        if (labels.length === 0) return;
+
+        vscode.window.showWarningMessage("There are problems in the journal settings (" + labels.join(", ") + "), see the output channel 'Journal'.", "Show Output")
+            .then(action => { if (action === "Show Output") this.ctrl.logger.channel.show(); });
+    }
+
+    /**
+     * Shows the problems as diagnostics at the setting in the settings.json
+     */
+    private publish(problems: SettingsTargetProblem[]): Q.Promise<void> {
+        this.diagnostics.clear();
+
+        let files: Map<string, SettingsTargetProblem[]> = new Map();
+        problems.filter(problem => !isUndefined(problem.settings.uri)).forEach(problem => {
+            let path: string = problem.settings.uri!.fsPath;
+            if (!files.has(path)) files.set(path, []);
+            files.get(path)!.push(problem);
+        });
+
+        return Q.all(Array.from(files.entries()).map(([path, fileProblems]) =>
+            Q.nfcall<string>(fs.readFile, path, "utf-8")
+                .then(content => {
+                    let diagnostics: vscode.Diagnostic[] = fileProblems.map(problem => {
+                        let diagnostic = new vscode.Diagnostic(this.findSetting(content, problem.key), problem.message + (problem.migratable ? MIGRATE_HINT : ""),
+                            (problem.severity === "error") ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning);
+                        diagnostic.source = "journal";
+                        return diagnostic;
+                    });
+                    this.diagnostics.set(fileProblems[0].settings.uri!, diagnostics);
+                })
+                .catch(error => this.ctrl.logger.error("Failed to show the problems of the journal settings in " + path, error))
+        )).then(() => undefined);
+    }
+
+    /**
+     * Returns the range of the key of the setting in the settings.json (or the first line, if it isn't found)
+     */
+    private findSetting(content: string, key: string): vscode.Range {
+        let index: number = content.indexOf("\"" + key + "\"");
+        if (index < 0) return new vscode.Range(0, 0, 0, 0);
+
+        let lines: string[] = content.substring(0, index).split("\n");
+        let line: number = lines.length - 1;
+        let character: number = lines[line].length;
+        return new vscode.Range(line, character, line, character + key.length + 2);
+    }
+
+}
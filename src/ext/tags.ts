@@ -0,0 +1,109 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import * as Q from 'q';
+import * as J from '../.';
+import moment = require('moment');
+import { isUndefined } from 'util';
+import { FileEntry } from '../actions/reader';
+import { SCOPE_DEFAULT } from './conf';
+
+/**
+ * An item in the tags view: either a tag (with the journal pages using it) or a journal page
+ */
+export class TagTreeItem extends vscode.TreeItem {
+    public children: TagTreeItem[] = [];
+
+    constructor(label: string, public tag: string, public entry?: FileEntry) {
+        super(label, isUndefined(entry) ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+    }
+}
+
+/**
+ * Provides the tags of all journal pages (with the number of pages using them) for the tree view "journal.tags"
+ */
+export class TagTreeProvider implements vscode.TreeDataProvider<TagTreeItem> {
+
+    private _onDidChangeTreeData: vscode.EventEmitter<TagTreeItem | undefined> = new vscode.EventEmitter<TagTreeItem | undefined>();
+    readonly onDidChangeTreeData: vscode.Event<TagTreeItem | undefined> = this._onDidChangeTreeData.event;
+
+    constructor(public ctrl: J.Util.Ctrl) {
+    }
+
+    /**
+     * Reads the tags from the index and updates the view
+     */
+    public refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public getTreeItem(element: TagTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: TagTreeItem): Thenable<TagTreeItem[]> {
+        if (element !== undefined) {
+            return Q.resolve(element.children);
+        }
+
+        return this.ctrl.indexer.ready()
+            .then(() => this.buildTree(this.ctrl.indexer.getTags()))
+            .catch(error => {
+                this.ctrl.logger.error("Failed to collect tags.", error);
+                return [];
+            });
+    }
+
+    /**
+     * One item per tag (sorted by name), with the journal pages as children (latest first). 
+     */
+    private buildTree(tags: Map<string, FileEntry[]>): TagTreeItem[] {
+        this.ctrl.logger.trace("Entering buildTree() in ext/tags.ts with tags: ", tags.size);
+
+        moment.locale(this.ctrl.config.getLocale());
+
+        return Array.from(tags.entries()).map(([tag, entries]) => {
+            let tagItem = new TagTreeItem("#" + tag, tag);
+            tagItem.contextValue = "tag";
+            tagItem.iconPath = new vscode.ThemeIcon("tag");
+            tagItem.description = entries.length.toString();
+            tagItem.children = entries
+                .sort((a, b) => (b.date - a.date) || a.path.localeCompare(b.path))
+                .map(entry => this.buildPageItem(tag, entry));
+            return tagItem;
+        });
+    }
+
+    private buildPageItem(tag: string, entry: FileEntry): TagTreeItem {
+        let item = new TagTreeItem(entry.title, tag, entry);
+        item.contextValue = "page";
+        item.tooltip = entry.path;
+        item.resourceUri = vscode.Uri.file(entry.path);
+        item.description = moment(entry.date).format("ddd, LL") + ((entry.scope !== SCOPE_DEFAULT) ? " in scope " + entry.scope : "");
+        item.command = {
+            command: "vscode.open",
+            title: "Open Page",
+            arguments: [item.resourceUri]
+        };
+        return item;
+    }
+
+}
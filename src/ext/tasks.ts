@@ -0,0 +1,127 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import * as Q from 'q';
+import * as J from '../.';
+import moment = require('moment');
+import { isUndefined } from 'util';
+import { TaskEntry } from '../actions/reader';
+
+/**
+ * An item in the tasks view: either a scope, a day (with the journal pages of this day) or an open task
+ */
+export class TaskTreeItem extends vscode.TreeItem {
+    public children: TaskTreeItem[] = [];
+
+    constructor(label: string, public task?: TaskEntry) {
+        super(label, isUndefined(task) ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None);
+    }
+}
+
+/**
+ * Provides the open tasks of all journal pages (grouped by scope and date) for the tree view "journal.tasks"
+ */
+export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItem> {
+
+    private _onDidChangeTreeData: vscode.EventEmitter<TaskTreeItem | undefined> = new vscode.EventEmitter<TaskTreeItem | undefined>();
+    readonly onDidChangeTreeData: vscode.Event<TaskTreeItem | undefined> = this._onDidChangeTreeData.event;
+
+    constructor(public ctrl: J.Util.Ctrl) {
+    }
+
+    /**
+     * Rescans the journal and updates the view
+     */
+    public refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public getTreeItem(element: TaskTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: TaskTreeItem): Thenable<TaskTreeItem[]> {
+        if (element !== undefined) {
+            return Q.resolve(element.children);
+        }
+
+        return this.ctrl.reader.getOpenTasks(this.ctrl.ui.getBaseDirectories())
+            .then((tasks: TaskEntry[]) => this.buildTree(tasks))
+            .catch(error => {
+                this.ctrl.logger.error("Failed to collect open tasks.", error);
+                return [];
+            });
+    }
+
+    /**
+     * Groups the tasks by scope, then by date (latest first). 
+     */
+    private buildTree(tasks: TaskEntry[]): TaskTreeItem[] {
+        this.ctrl.logger.trace("Entering buildTree() in ext/tasks.ts with tasks: ", tasks.length);
+
+        moment.locale(this.ctrl.config.getLocale());
+
+        let scopes: Map<string, Map<string, TaskTreeItem>> = new Map();
+        tasks
+            .sort((a, b) => (b.date.getTime() - a.date.getTime()) || (a.line - b.line))
+            .forEach(task => {
+                if (!scopes.has(task.scope)) scopes.set(task.scope, new Map());
+                let days: Map<string, TaskTreeItem> = scopes.get(task.scope)!;
+
+                let day: string = moment(task.date).format("YYYY-MM-DD");
+                if (!days.has(day)) {
+                    let dayItem = new TaskTreeItem(moment(task.date).format("ddd, LL"));
+                    dayItem.contextValue = "day";
+                    days.set(day, dayItem);
+                }
+                days.get(day)!.children.push(this.buildTaskItem(task));
+            });
+
+        let scopeItems: TaskTreeItem[] = Array.from(scopes.entries()).map(([scope, days]) => {
+            let scopeItem = new TaskTreeItem(scope);
+            scopeItem.contextValue = "scope";
+            scopeItem.children = Array.from(days.values());
+            scopeItem.description = scopeItem.children.reduce((count, day) => count + day.children.length, 0).toString();
+            return scopeItem;
+        });
+
+        return scopeItems;
+    }
+
+    private buildTaskItem(task: TaskEntry): TaskTreeItem {
+        let item = new TaskTreeItem(task.text, task);
+        item.contextValue = "task";
+        item.tooltip = task.path + ":" + (task.line + 1);
+        item.iconPath = new vscode.ThemeIcon(J.Util.isOverdue(task) ? "warning" : (task.inProgress ? "circle-filled" : "circle-outline"));
+
+        let description: string[] = [];
+        if (!isUndefined(task.due)) description.push("due " + moment(task.due).format("ddd, LL"));
+        if (!isUndefined(task.priority)) description.push("!" + J.Util.PRIORITIES[task.priority - 1]);
+        item.description = description.join(", ");
+        item.command = {
+            command: "journal.tasks.open",
+            title: "Open Task",
+            arguments: [item]
+        };
+        return item;
+    }
+
+}
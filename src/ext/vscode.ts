@@ -26,11 +26,23 @@ import * as fs from 'fs';
 import { isUndefined } from 'util';
 import { resolve } from 'path';
 import { JournalPageType, SCOPE_DEFAULT } from './conf';
-import { FileEntry, BaseDirectory } from '../actions/reader';
+import { FileEntry, BaseDirectory, TaskEntry, SearchHit } from '../actions/reader';
 import moment = require('moment');
 import { start } from 'repl';
 
 
+interface TaskQuickPickItem extends vscode.QuickPickItem {
+    task: TaskEntry;
+}
+
+interface TagQuickPickItem extends vscode.QuickPickItem {
+    tag: string;
+}
+
+interface SearchQuickPickItem extends vscode.QuickPickItem {
+    hit: SearchHit;
+}
+
 interface DecoratedQuickPickItem extends vscode.QuickPickItem {
     parsedInput?: J.Model.Input;
     replace?: boolean;
@@ -189,6 +201,26 @@ export class VSCode {
         */
     }
 
+    /**
+     * The base directories of the journal, one for each configured scope. 
+     */
+    public getBaseDirectories(): BaseDirectory[] {
+        let baseDirectories: BaseDirectory[] = [];
+        this.ctrl.config.getScopes().forEach(scope => {
+            try {
+                let scopedBaseDirectory: BaseDirectory = {
+                    path: this.ctrl.config.getBasePath(scope),
+                    scope: scope
+                }
+                if (J.Util.stringIsNotEmpty(scopedBaseDirectory.path)) baseDirectories.push(scopedBaseDirectory);
+            } catch (error) {
+                // e.g. an unresolved variable, the scope is skipped
+                this.ctrl.logger.error("Failed to resolve the base path of scope " + scope + ": ", error);
+            }
+        });
+        return baseDirectories;
+    }
+
     /**
      * 
      * @param type 
@@ -210,23 +242,10 @@ export class VSCode {
 
             input.busy = true;
 
-            // collect directories to scan (including in scopes)
-            let baseDirectories: BaseDirectory[] = [];
-            this.ctrl.config.getScopes().forEach(scope => {
-                let scopedBaseDirectory: BaseDirectory = {
-                    path: this.ctrl.config.getBasePath(scope),
-                    scope: scope
-                }
-                if (J.Util.stringIsNotEmpty(scopedBaseDirectory.path)) baseDirectories.push(scopedBaseDirectory);
-            });
+            // collect the directories of the journal (including in scopes)
+            let baseDirectories: BaseDirectory[] = this.getBaseDirectories();
 
-
-            /* slow: get everything async for search */
-            // Update: populating the list is async now using a callback, which means we lose the option of sorting the list
-            this.ctrl.reader.getPreviouslyAccessedFiles(this.ctrl.config.getInputTimeThreshold(), this.addItem, input, type, baseDirectories);
-
-            /* fast: get last updated file within time period sync (quick selection only) */
-            this.ctrl.reader.getPreviouslyAccessedFilesSync(this.ctrl.config.getInputTimeThreshold(), baseDirectories)
+            this.ctrl.reader.getIndexedFiles(this.ctrl.config.getInputTimeThreshold(), baseDirectories)
                 .then((values: FileEntry[]) => {
                     values.forEach(fe => this.addItem(fe, input, type));
 
@@ -260,25 +279,13 @@ export class VSCode {
 
                             console.log("Tags in input string: " + inputText.tags + " and scope " + inputText.scope);
 
-                            // infer description
-                            let description: string = "";
-                            if (inputText.scope == SCOPE_DEFAULT) {
-                                description = "Create new note in default path"
-                            } else {
-                                description = "Create new note in scope \"" + inputText.scope + "\"";
-                            }
-
-                            if (inputText.tags.length > 0) {
-                                description += " and tags " + inputText.tags;
-                            }
-
                             let item: DecoratedQuickPickItem = {
                                 label: inputText.text,
                                 path: path,
                                 alwaysShow: true,
                                 replace: true,
                                 parsedInput: inputText,
-                                description: description
+                                description: inputText.generateDetail(this.ctrl.config)
                             };
                             if (input.items.length > 0 && input.items[0].replace && input.items[0].replace === true) {
                                 input.items = [item].concat(input.items.slice(1))
@@ -316,6 +323,151 @@ export class VSCode {
 
 
 
+    /**
+     * Shows the given tasks in a quick pick (with due date, priority and journal page) and returns the selected task. 
+     * 
+     * @param tasks the tasks to choose from
+     * @param placeholder the placeholder of the quick pick
+     */
+    public pickTask(tasks: TaskEntry[], placeholder: string): Q.Promise<TaskEntry> {
+        this.ctrl.logger.trace("Entering pickTask() in ext/vscode.ts");
+
+        return Q.Promise<TaskEntry>((resolve, reject) => {
+            moment.locale(this.ctrl.config.getLocale());
+
+            let items: TaskQuickPickItem[] = tasks.map(task => {
+                let description: string[] = [];
+                if (!isUndefined(task.due)) description.push("due " + moment(task.due).format("ddd, LL"));
+                if (!isUndefined(task.priority)) description.push("!" + J.Util.PRIORITIES[task.priority - 1]);
+
+                return {
+                    label: task.text,
+                    description: description.join(", "),
+                    detail: task.path + ":" + (task.line + 1),
+                    task: task
+                };
+            });
+
+            vscode.window.showQuickPick(items, { placeHolder: placeholder, matchOnDescription: true, matchOnDetail: true })
+                .then((selected: TaskQuickPickItem | undefined) => {
+                    if (isUndefined(selected)) reject("cancel");
+                    else resolve(selected.task);
+                }, reject);
+        });
+    }
+
+    /**
+     * Shows the tags of the journal (with the number of pages using them) in a quick pick and returns the selected tag. 
+     * 
+     * @param tags the tags (without "#") with their pages
+     * @param placeholder the placeholder of the quick pick
+     */
+    public pickTag(tags: Map<string, FileEntry[]>, placeholder: string): Q.Promise<string> {
+        this.ctrl.logger.trace("Entering pickTag() in ext/vscode.ts");
+
+        return Q.Promise<string>((resolve, reject) => {
+            let items: TagQuickPickItem[] = Array.from(tags.entries()).map(([tag, entries]) => ({
+                label: "#" + tag,
+                description: entries.length + (entries.length === 1 ? " page" : " pages"),
+                tag: tag
+            }));
+
+            vscode.window.showQuickPick(items, { placeHolder: placeholder })
+                .then((selected: TagQuickPickItem | undefined) => {
+                    if (isUndefined(selected)) reject("cancel");
+                    else resolve(selected.tag);
+                }, reject);
+        });
+    }
+
+    /**
+     * Asks for the new name of the tag (without "#"). 
+     * 
+     * @param tag the current name of the tag
+     */
+    public getTagName(tag: string): Q.Promise<string> {
+        this.ctrl.logger.trace("Entering getTagName() in ext/vscode.ts");
+
+        return Q.Promise<string>((resolve, reject) => {
+            let options: vscode.InputBoxOptions = {
+                prompt: "New name of the tag #" + tag,
+                value: tag,
+                validateInput: (value: string) => {
+                    let name: string = value.trim().replace(/^#/, "");
+                    return J.Util.isValidTag(name) ? null : "A tag consists of letters, digits, '_' and '-' (and starts with a letter, digit or '_')";
+                }
+            };
+
+            vscode.window.showInputBox(options)
+                .then((value: string | undefined) => {
+                    let name: string = isUndefined(value) ? "" : value.trim().replace(/^#/, "");
+                    if (name.length === 0 || name === tag) reject("cancel");
+                    else resolve(name);
+                }, reject);
+        });
+    }
+
+    /**
+     * Shows a quick pick which searches the journal while typing (see Reader.searchJournal) and returns the selected hit. 
+     */
+    public pickSearchHit(): Q.Promise<SearchHit> {
+        this.ctrl.logger.trace("Entering pickSearchHit() in ext/vscode.ts");
+
+        return Q.Promise<SearchHit>((resolve, reject) => {
+            moment.locale(this.ctrl.config.getLocale());
+
+            const input = vscode.window.createQuickPick<SearchQuickPickItem>();
+            input.placeholder = "Search the journal, e.g. invoice #clientA scope:work after:2026-01-01 type:note";
+
+            let timer: NodeJS.Timer | undefined;
+            let searches: number = 0;
+
+            let search = (value: string) => {
+                let current: number = ++searches;
+                let query: J.Util.SearchQuery = J.Util.parseSearchQuery(value);
+                let directories: BaseDirectory[] = this.getBaseDirectories()
+                    .filter(directory => query.scopes.length === 0 || query.scopes.indexOf(directory.scope) >= 0);
+
+                input.busy = true;
+                this.ctrl.reader.searchJournal(query, directories)
+                    .then((hits: SearchHit[]) => {
+                        // a newer search has been started while typing
+                        if (current !== searches) return;
+
+                        input.items = hits.map(hit => ({
+                            label: hit.text.trim(),
+                            description: moment(hit.date).format("ddd, LL") + ((hit.scope !== SCOPE_DEFAULT) ? " in scope " + hit.scope : ""),
+                            detail: hit.path + ":" + (hit.line + 1),
+                            alwaysShow: true,
+                            hit: hit
+                        }));
+                        input.busy = false;
+                    })
+                    .catch(error => {
+                        if (current === searches) input.busy = false;
+                        this.ctrl.logger.error("Failed to search the journal.", error);
+                    })
+                    .done();
+            };
+
+            input.onDidChangeValue(value => {
+                if (timer !== undefined) clearTimeout(timer);
+                timer = setTimeout(() => search(value), 200);
+            });
+            input.onDidAccept(() => {
+                if (input.selectedItems.length > 0) resolve(input.selectedItems[0].hit);
+                input.hide();
+            });
+            input.onDidHide(() => {
+                if (timer !== undefined) clearTimeout(timer);
+                this.ctrl.reader.clearSearchCache();
+                reject("cancel");
+                input.dispose();
+            });
+            input.show();
+        });
+    }
+
     /** 
      * Simple method to have Q Promise for vscode API call to get user input 
      */
@@ -428,6 +580,28 @@ export class VSCode {
         });
     }
 
+    /**
+     * Shows the document with the cursor placed at the beginning of the given line. 
+     * 
+     * @param textDocument the document to show
+     * @param line the line number (starting with 0)
+     */
+    public showDocumentAtLine(textDocument: vscode.TextDocument, line: number): Q.Promise<vscode.TextEditor> {
+        this.ctrl.logger.trace("Entering showDocumentAtLine() in ext/vscode.ts for document: ", textDocument.fileName);
+
+        return Q.Promise<vscode.TextEditor>((resolve, reject) => {
+            let position: vscode.Position = textDocument.validatePosition(new vscode.Position(line, 0));
+            let options: vscode.TextDocumentShowOptions = {
+                viewColumn: this.ctrl.config.isOpenInNewEditorGroup() ? 2 : 1,
+                selection: new vscode.Range(position, position)
+            };
+
+            vscode.window.showTextDocument(textDocument, options).then(
+                editor => resolve(editor),
+                error => reject(error));
+        });
+    }
+
 
 
 }
\ No newline at end of file
@@ -32,7 +32,11 @@ export function activate(context: vscode.ExtensionContext) {
     journalStartup = new J.Util.Startup(context, config);
     journalStartup.initialize()
         .then((ctrl) => journalStartup.registerLoggingChannel(ctrl, context))
+        .then((ctrl) => journalStartup.registerSettings(ctrl, context))
+        .then((ctrl) => journalStartup.registerIndex(ctrl, context))
         .then((ctrl) => journalStartup.registerCommands(ctrl, context))
+        .then((ctrl) => journalStartup.registerViews(ctrl, context))
+        .then((ctrl) => journalStartup.registerStatusBar(ctrl, context))
         
         .catch((error) => {
             console.error(error);
@@ -47,7 +51,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     return {
         extendMarkdownIt(md: any) {
-            return md.use(require('markdown-it-task-checkbox')).use(require('markdown-it-synapse-table')).use(require('markdown-it-underline'));
+            return md.use(require('markdown-it-task-checkbox')).use(J.Extension.taskStatesPlugin).use(require('markdown-it-synapse-table')).use(require('markdown-it-underline'));
         }
     };
 }
@@ -23,6 +23,7 @@ import { isUndefined } from "util";
 import moment = require("moment");
 import { Util } from "../index";
 import * as J from './..';
+import { JournalPageType, SCOPE_DEFAULT } from '../ext/conf';
 
 
 export class Input {
@@ -33,6 +34,8 @@ export class Input {
     private _text: string = "";
     private _scope: string = "";
     private _tags: string[] = [];
+    private _expression: string = "";
+    private _type: JournalPageType = JournalPageType.ENTRY;
 
 
 
@@ -79,6 +82,22 @@ export class Input {
         return this._scope;
     }
 
+    /**
+     * Getter expression (the relative date expression in the input, e.g. "end of week")
+     * @return {string }
+     */
+    public get expression(): string {
+        return this._expression;
+    }
+
+    /**
+     * Getter type (the page which is opened for this input: entry, week or month)
+     * @return {JournalPageType }
+     */
+    public get type(): JournalPageType {
+        return this._type;
+    }
+
     /**
      * Setter offset
      * @param {number } value
@@ -115,6 +134,22 @@ export class Input {
         this._scope = value;
     }
 
+    /**
+     * Setter expression
+     * @param {string } value
+     */
+    public set expression(value: string) {
+        this._expression = value;
+    }
+
+    /**
+     * Setter type
+     * @param {JournalPageType } value
+     */
+    public set type(value: JournalPageType) {
+        this._type = value;
+    }
+
 
     public hasMemo(): boolean {
         return this.text.length > 0;
@@ -128,10 +163,29 @@ export class Input {
         return !isNaN(this.offset);
     }
 
+    public hasScope(): boolean {
+        return this.scope.length > 0 && this.scope !== SCOPE_DEFAULT;
+    }
+
+    public hasExpression(): boolean {
+        return this.expression.length > 0;
+    }
+
+    public isTask(): boolean {
+        return this.flags === "task" || this.flags === "todo";
+    }
+
+    public isPeriod(): boolean {
+        return this.type === JournalPageType.WEEK || this.type === JournalPageType.MONTH;
+    }
+
     //  e.g. Add a task for the entry of 2019-09-03
     public generateDescription(config: J.Extension.Configuration): string {
         moment.locale(config.getLocale());
-        return moment(this.generateDate()).format("ddd, LL");
+        let date: string = moment(this.generateDate()).format(this.getDateFormat());
+
+        // preview of the resolved relative date expression, e.g. "end of month → Sat, October 31, 2026"
+        return this.hasExpression() ? this.expression + " → " + date : date;
     }
 
 
@@ -145,14 +199,43 @@ export class Input {
 
 
     public generateDetail(config: J.Extension.Configuration): string {
+        let detail: string = this.generatePageDetail(config);
+
+        // e.g. Add memo to entry Today in scope "work"
+        return this.hasScope() ? detail + " " + config.getInputDetailsStringForScope(this.scope) : detail;
+    }
+
+    private generatePageDetail(config: J.Extension.Configuration): string {
         moment.locale(config.getLocale());
         let t: moment.Moment = moment(this.generateDate());
 
+        if (this.type === JournalPageType.WEEK) {
+            return config.getInputDetailsStringForWeek(t.format(this.getDateFormat()));
+        }
+        if (this.type === JournalPageType.MONTH) {
+            return config.getInputDetailsStringForMonth(t.format(this.getDateFormat()));
+        }
+
         let time: string = t.calendar(moment(), config.getInputDetailsTimeFormat());
 
+        if (this.hasFlags() && this.hasMemo()) {
+            if (!this.isTask()) return config.getInputDetailsStringForMemo(time);
+
+            // e.g. Add task to entry Today (due Fri, October 23, 2026)
+            let due: Date | undefined = Util.parseTaskMetadata(this.text).due;
+            return config.getInputDetailsStringForTask(time) + (isUndefined(due) ? "" : " (due " + moment(due).format("ddd, LL") + ")");
+        }
         return config.getInputDetailsStringForEntry(time);
     }
 
+    private getDateFormat(): string {
+        switch (this.type) {
+            case JournalPageType.WEEK: return "[W]W, GGGG";
+            case JournalPageType.MONTH: return "MMMM YYYY";
+            default: return "ddd, LL";
+        }
+    }
+
 
 }
 
@@ -167,6 +250,19 @@ export class NoteInput extends Input {
     public get path() { return this._path }
     public set path(path: string) { this._path = path }
 
+    // the path of the new note
+    public generateDescription(config: J.Extension.Configuration): string {
+        return this.path;
+    }
+
+    //  e.g. Create new note in scope "clientA" and tags #clientA
+    public generateDetail(config: J.Extension.Configuration): string {
+        let detail: string = (this.hasScope()) ? config.getInputDetailsStringForNoteInScope(this.scope) : config.getInputDetailsStringForNote();
+
+        let tags: string[] = this.tags.filter(tag => tag.length > 0);
+        return (tags.length > 0) ? detail + " and tags " + tags.join(" ") : detail;
+    }
+
 }
 
 export class SelectedInput extends Input {
@@ -0,0 +1,88 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import moment = require('moment');
+import { DateRange } from './dates';
+
+/**
+ * A day in the month grid of the calendar
+ */
+export interface CalendarDay {
+    /** the day as "YYYY-MM-DD" */
+    date: string;
+    /** the day of the month */
+    day: number;
+    /** false for the days of the previous or next month (which fill the first and last week) */
+    inMonth: boolean;
+    today: boolean;
+    /** true, if there is a journal entry for this day */
+    entry: boolean;
+    /** number of notes created on this day */
+    notes: number;
+    /** number of open tasks in the entry and the notes of this day */
+    tasks: number;
+}
+
+/**
+ * Builds the weeks of the month (each with seven days, starting with the given day of the week). The 
+ * entries, notes and tasks have to be added afterwards. 
+ *
+ * @param {Date} month any day within the month
+ * @param {number} firstDayOfWeek the first day of the week (0 is sunday), see moment.localeData().firstDayOfWeek()
+ * @param {Date} today the current day
+ * @returns {CalendarDay[][]} the weeks of the month
+ */
+export function buildCalendarMonth(month: Date, firstDayOfWeek: number, today: Date): CalendarDay[][] {
+    let start: moment.Moment = moment(month).startOf('month');
+    let end: moment.Moment = moment(month).endOf('month');
+    let current: moment.Moment = start.clone().subtract((start.day() - firstDayOfWeek + 7) % 7, 'days');
+    let todayString: string = moment(today).format("YYYY-MM-DD");
+
+    let weeks: CalendarDay[][] = [];
+    while (current.isSameOrBefore(end, 'day')) {
+        let week: CalendarDay[] = [];
+        for (let i = 0; i < 7; i++) {
+            let date: string = current.format("YYYY-MM-DD");
+            week.push({
+                date: date,
+                day: current.date(),
+                inMonth: current.isSame(start, 'month'),
+                today: date === todayString,
+                entry: false,
+                notes: 0,
+                tasks: 0
+            });
+            current.add(1, 'days');
+        }
+        weeks.push(week);
+    }
+    return weeks;
+}
+
+/**
+ * Returns the range of the days shown in the weeks (from the first day of the first week until the end of the last day)
+ */
+export function getCalendarRange(weeks: CalendarDay[][]): DateRange {
+    let last: CalendarDay[] = weeks[weeks.length - 1];
+    return {
+        from: moment(weeks[0][0].date, "YYYY-MM-DD").startOf('day').toDate(),
+        to: moment(last[last.length - 1].date, "YYYY-MM-DD").endOf('day').toDate()
+    };
+}
@@ -32,6 +32,7 @@ export class Ctrl {
     private _parser: J.Actions.Parser;
     private _writer: J.Actions.Writer;
     private _reader: J.Actions.Reader;
+    private _indexer: J.Actions.Indexer;
 
  
     private _logger: J.Util.Logger | undefined; 
@@ -44,6 +45,7 @@ export class Ctrl {
         this._parser = new J.Actions.Parser(this);
         this._writer = new J.Actions.Writer(this);
         this._reader = new J.Actions.Reader(this);
+        this._indexer = new J.Actions.Indexer(this);
         this._inject = new J.Actions.Inject(this);
         this._ui = new J.Extension.VSCode(this);
     }
@@ -81,6 +83,14 @@ export class Ctrl {
         return this._reader;
     }
 
+    /**
+     * Getter $indexer
+     * @return {J.Actions.Indexer}
+     */
+    public get indexer(): J.Actions.Indexer {
+        return this._indexer;
+    }
+
     /**
      * Getter $parser
      * @return {J.Actions.Parser}
@@ -97,6 +107,14 @@ export class Ctrl {
         return this._config;
     }
 
+    /**
+     * Reads the settings again (the configuration is a snapshot of the settings)
+     * @param {vscode.WorkspaceConfiguration} vscodeConfig
+     */
+    public updateConfiguration(vscodeConfig: vscode.WorkspaceConfiguration): void {
+        this._config = new J.Extension.Configuration(vscodeConfig);
+    }
+
     /**
      * Getter inject
      * @return {J.Actions.Inject}
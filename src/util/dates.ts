@@ -0,0 +1,561 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+
+
+'use strict';
+
+import * as moment from 'moment';
+
+/**
+ * Grammar for natural language expressions of relative dates, e.g. "in 3 days", "2 weeks ago", "next month",
+ * "end of week", "first monday of november" or "last day of month". Expressions can be composed,
+ * e.g. "2 days before end of month".
+ *
+ * All words are taken from a vocabulary, every entry lists the accepted (lowercase) words or phrases.
+ */
+export interface DateVocabulary {
+    today: string[];
+    tomorrow: string[];
+    yesterday: string[];
+    next: string[];
+    last: string[];
+    this: string[];
+    in: string[];
+    /** follows the unit, e.g. "2 weeks ago" */
+    ago: string[];
+    /** precedes the number, e.g. "hace 2 semanas" */
+    agoPrefix: string[];
+    after: string[];
+    before: string[];
+    of: string[];
+    start: string[];
+    end: string[];
+    one: string[];
+    units: {
+        day: string[];
+        week: string[];
+        month: string[];
+        year: string[];
+    };
+    /** first, second, ... (index 0 is the first) */
+    ordinals: string[][];
+    /** monday to sunday (index 0 is monday) */
+    weekdays: string[][];
+    /** january to december (index 0 is january) */
+    months: string[][];
+    /** if true, next/last can also follow the weekday or unit, e.g. "mardi prochain" */
+    postfix?: boolean;
+}
+
+export const ENGLISH_DATE_VOCABULARY: DateVocabulary = {
+    today: ["today", "tod"],
+    tomorrow: ["tomorrow", "tom"],
+    yesterday: ["yesterday", "yes"],
+    next: ["next", "n"],
+    last: ["last", "previous", "l"],
+    this: ["this", "current"],
+    in: ["in"],
+    ago: ["ago"],
+    agoPrefix: [],
+    after: ["after", "from"],
+    before: ["before"],
+    of: ["of"],
+    start: ["start", "beginning"],
+    end: ["end"],
+    one: ["a", "an", "one"],
+    units: {
+        day: ["day", "days"],
+        week: ["week", "weeks"],
+        month: ["month", "months"],
+        year: ["year", "years"]
+    },
+    ordinals: [["first"], ["second"], ["third"], ["fourth"], ["fifth"]],
+    weekdays: [
+        ["monday", "mon"],
+        ["tuesday", "tue", "tues"],
+        ["wednesday", "wed"],
+        ["thursday", "thu", "thur", "thurs"],
+        ["friday", "fri"],
+        ["saturday", "sat"],
+        ["sunday", "sun"]
+    ],
+    months: [
+        ["january", "jan"],
+        ["february", "feb"],
+        ["march", "mar"],
+        ["april", "apr"],
+        ["may"],
+        ["june", "jun"],
+        ["july", "jul"],
+        ["august", "aug"],
+        ["september", "sep", "sept"],
+        ["october", "oct"],
+        ["november", "nov"],
+        ["december", "dec"]
+    ]
+};
+
+/**
+ * Result of a matched relative date expression
+ */
+export interface RelativeDate {
+    /** offset in days to the reference date */
+    offset: number;
+    /** the matched expression, e.g. "end of week" */
+    expression: string;
+    /** the remaining input following the expression */
+    rest: string;
+}
+
+/**
+ * Result of a matched week or month expression
+ */
+export interface RelativePeriod {
+    /** the type of the period */
+    unit: "week" | "month";
+    /** offset in days to a date within the period */
+    offset: number;
+    /** the matched expression, e.g. "next week" */
+    expression: string;
+}
+
+/**
+ * A range of days, e.g. for reports over the journal
+ */
+export interface DateRange {
+    /** the first day (start of day) */
+    from: Date;
+    /** the last day (end of day) */
+    to: Date;
+    /** the scope entered with the range, e.g. "#work last week" (undefined for all scopes) */
+    scope?: string;
+}
+
+type Unit = "day" | "week" | "month" | "year";
+
+interface Token {
+    text: string;
+    start: number;
+    end: number;
+}
+
+/** a value matched by a rule and the index of the next token */
+interface Step<T> {
+    value: T;
+    next: number;
+}
+
+interface Period {
+    start: moment.Moment;
+    end: moment.Moment;
+    /** a month without year ("november"), dates in it which have already passed are taken from next year */
+    upcoming?: boolean;
+}
+
+interface RelativeUnit {
+    /** +1 for next, -1 for last, 0 for this */
+    modifier: number;
+    unit: Unit;
+}
+
+
+/**
+ * Tries to match a relative date expression at the beginning of the given value.
+ *
+ * Plain shortcuts and weekdays ("today", "next friday") are only accepted as part of a composed expression
+ * (e.g. "3 days after next friday"), on their own they are left to the default input expression.
+ *
+ * @param value the user input
+ * @param today the reference date
+ * @param vocabulary the words used in the expressions
+ * @returns the offset in days and the remaining input, or undefined if no expression was found
+ */
+export function parseRelativeDate(value: string, today: Date, vocabulary: DateVocabulary = ENGLISH_DATE_VOCABULARY): RelativeDate | undefined {
+    let tokens: Token[] = tokenize(value);
+    let reference: moment.Moment = moment(today).startOf('day');
+    let grammar = new RelativeDateGrammar(tokens, reference, vocabulary);
+
+    let match: Step<moment.Moment> | undefined = grammar.expression(0, false);
+    if (match === undefined) { return undefined; }
+
+    let last: Token = tokens[match.next - 1];
+    return {
+        offset: match.value.diff(reference, 'days'),
+        expression: value.substring(tokens[0].start, last.end),
+        rest: value.substring(last.end).trim()
+    };
+}
+
+
+/**
+ * Checks whether the given value is a week or month, e.g. "week", "next month", "semaine prochaine", "2026-W42"
+ * or "2026-10". The expression has to be the complete value.
+ *
+ * @param value the user input
+ * @param today the reference date
+ * @param vocabulary the words used in the expressions
+ * @returns the type of the period and the offset in days to a date within the period, or undefined
+ */
+export function parseRelativePeriod(value: string, today: Date, vocabulary: DateVocabulary = ENGLISH_DATE_VOCABULARY): RelativePeriod | undefined {
+    let tokens: Token[] = tokenize(value);
+    if (tokens.length === 0) { return undefined; }
+    let reference: moment.Moment = moment(today).startOf('day');
+
+    if (tokens.length === 1) {
+        let week: moment.Moment = moment(tokens[0].text.toUpperCase(), "GGGG-[W]WW", true);
+        if (week.isValid()) { return { unit: "week", offset: week.diff(reference, 'days'), expression: value.trim() }; }
+
+        let month: moment.Moment = moment(tokens[0].text, "YYYY-MM", true);
+        if (month.isValid()) { return { unit: "month", offset: month.diff(reference, 'days'), expression: value.trim() }; }
+    }
+
+    let grammar = new RelativeDateGrammar(tokens, reference, vocabulary);
+    let match: Step<RelativeUnit> | undefined = grammar.relativePeriod(0);
+    if (match === undefined || match.next !== tokens.length) { return undefined; }
+    if (match.value.unit !== "week" && match.value.unit !== "month") { return undefined; }
+
+    return {
+        unit: match.value.unit,
+        offset: reference.clone().add(match.value.modifier, match.value.unit).diff(reference, 'days'),
+        expression: value.trim()
+    };
+}
+
+
+function tokenize(value: string): Token[] {
+    let tokens: Token[] = [];
+    let regexp: RegExp = /\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = regexp.exec(value)) !== null) {
+        tokens.push({ text: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+    }
+    return tokens;
+}
+
+
+/**
+ * Recursive descent parser for the relative date expressions. Every rule takes the index of the current token
+ * and returns the resolved value with the index of the next token (or undefined if the rule doesn't match).
+ *
+ *  expression := prefixed | shift | anchor
+ *  prefixed   := IN number unit | AGO number unit
+ *  shift      := number unit AGO | number unit (AFTER|BEFORE) expression
+ *  anchor     := (START|END) OF period | ordinal (weekday|DAY) OF period | modifier unit
+ *                | shortcut | [modifier] weekday | iso date   (the last three only when nested)
+ *  period     := [modifier] unit | month [year]
+ *  modifier   := NEXT | LAST | THIS  (can follow the unit or weekday, if the vocabulary is postfix)
+ */
+class RelativeDateGrammar {
+
+    constructor(private tokens: Token[], private today: moment.Moment, private vocabulary: DateVocabulary) {
+    }
+
+    public expression(i: number, nested: boolean): Step<moment.Moment> | undefined {
+        // the prefixed shifts are tried first: a word can be both AGO prefix and BEFORE ("vor 3 Tagen", "2 Tage vor Freitag")
+        let prefixed: Step<moment.Moment> | undefined = this.prefixed(i);
+        if (prefixed !== undefined) { return prefixed; }
+        let shift: Step<moment.Moment> | undefined = this.shift(i);
+        if (shift !== undefined) { return shift; }
+        return this.anchor(i, nested);
+    }
+
+    private prefixed(i: number): Step<moment.Moment> | undefined {
+        // in 3 days, hace 2 semanas, vor 3 Tagen
+        let prefix: number | undefined = this.word(i, this.vocabulary.in);
+        let agoPrefix: number | undefined = this.word(i, this.vocabulary.agoPrefix);
+        let start: number | undefined = (prefix !== undefined) ? prefix : agoPrefix;
+        if (start === undefined) { return undefined; }
+
+        let amount: Step<number> | undefined = this.number(start);
+        let unit: Step<Unit> | undefined = (amount === undefined) ? undefined : this.unit(amount.next);
+        if (amount === undefined || unit === undefined) { return undefined; }
+        let date: moment.Moment = (prefix !== undefined) ? this.today.clone().add(amount.value, unit.value) : this.today.clone().subtract(amount.value, unit.value);
+        return { value: date, next: unit.next };
+    }
+
+    private shift(i: number): Step<moment.Moment> | undefined {
+        let amount: Step<number> | undefined = this.number(i);
+        let unit: Step<Unit> | undefined = (amount === undefined) ? undefined : this.unit(amount.next);
+        if (amount === undefined || unit === undefined) { return undefined; }
+
+        let ago: number | undefined = this.word(unit.next, this.vocabulary.ago);
+        if (ago !== undefined) {
+            return { value: this.today.clone().subtract(amount.value, unit.value), next: ago };
+        }
+
+        // 2 days before end of month
+        let after: number | undefined = this.word(unit.next, this.vocabulary.after);
+        let before: number | undefined = this.word(unit.next, this.vocabulary.before);
+        if (after !== undefined || before !== undefined) {
+            let base: Step<moment.Moment> | undefined = this.expression((after !== undefined) ? after : before!, true);
+            if (base === undefined) { return undefined; }
+            let date: moment.Moment = (after !== undefined) ? base.value.clone().add(amount.value, unit.value) : base.value.clone().subtract(amount.value, unit.value);
+            return { value: date, next: base.next };
+        }
+        return undefined;
+    }
+
+    private anchor(i: number, nested: boolean): Step<moment.Moment> | undefined {
+        // start of next month, end of week
+        let start: number | undefined = this.word(i, this.vocabulary.start);
+        let end: number | undefined = this.word(i, this.vocabulary.end);
+        let of: number | undefined = this.word((start !== undefined) ? start : (end !== undefined) ? end : -1, this.vocabulary.of);
+        if (of !== undefined) {
+            let period: Step<Period> | undefined = this.period(of);
+            if (period !== undefined) {
+                let date: moment.Moment | undefined = this.upcoming(period.value, (period: Period) =>
+                    ((start !== undefined) ? period.start : period.end).clone().startOf('day'));
+                return { value: date!, next: period.next };
+            }
+        }
+
+        // first monday of november, last day of month
+        let ordinal: Step<number> | undefined = this.ordinal(i);
+        if (ordinal !== undefined) {
+            let weekday: Step<number> | undefined = this.weekday(ordinal.next);
+            let unit: Step<Unit> | undefined = this.unit(ordinal.next);
+            let next: number = (weekday !== undefined) ? weekday.next : (unit !== undefined && unit.value === "day") ? unit.next : -1;
+            let of: number | undefined = this.word(next, this.vocabulary.of);
+            let period: Step<Period> | undefined = (of === undefined) ? undefined : this.period(of);
+            if (period !== undefined) {
+                const nth: number = ordinal.value;
+                const day: number | undefined = (weekday !== undefined) ? weekday.value : undefined;
+                let date: moment.Moment | undefined = this.upcoming(period.value, (period: Period) => (day !== undefined) ?
+                    this.nthWeekdayOfPeriod(nth, day, period) :
+                    this.nthDayOfPeriod(nth, period));
+                if (date !== undefined) { return { value: date, next: period.next }; }
+            }
+        }
+
+        // next week, last month, mois prochain
+        let relative: Step<RelativeUnit> | undefined = this.relativeUnit(i);
+        if (relative !== undefined) {
+            return { value: this.today.clone().add(relative.value.modifier, relative.value.unit), next: relative.next };
+        }
+
+        if (!nested) { return undefined; }
+
+        // anchors which are only supported in composed expressions, e.g. "2 days before next friday"
+        let shortcut: number | undefined = this.word(i, this.vocabulary.today);
+        if (shortcut !== undefined) { return { value: this.today.clone(), next: shortcut }; }
+        shortcut = this.word(i, this.vocabulary.tomorrow);
+        if (shortcut !== undefined) { return { value: this.today.clone().add(1, 'day'), next: shortcut }; }
+        shortcut = this.word(i, this.vocabulary.yesterday);
+        if (shortcut !== undefined) { return { value: this.today.clone().subtract(1, 'day'), next: shortcut }; }
+
+        let weekday: Step<number> | undefined = this.modifiedWeekday(i);
+        if (weekday !== undefined) { return { value: this.today.clone().add(weekday.value, 'days'), next: weekday.next }; }
+
+        if (i < this.tokens.length && this.tokens[i].text.match(/^\d{4}-\d{1,2}-\d{1,2}$/)) {
+            let date: moment.Moment = moment(this.tokens[i].text, "YYYY-M-D", true);
+            if (date.isValid()) { return { value: date, next: i + 1 }; }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * A unit with optional modifier, e.g. "week" or "next month"
+     */
+    public relativePeriod(i: number): Step<RelativeUnit> | undefined {
+        let relative: Step<RelativeUnit> | undefined = this.relativeUnit(i);
+        if (relative !== undefined) { return relative; }
+
+        let unit: Step<Unit> | undefined = this.unit(i);
+        return (unit === undefined) ? undefined : { value: { modifier: 0, unit: unit.value }, next: unit.next };
+    }
+
+    /**
+     * The period (start and end) for expressions like "week", "next month" or "november 2026"
+     */
+    private period(i: number): Step<Period> | undefined {
+        let relative: Step<RelativeUnit> | undefined = this.relativePeriod(i);
+        if (relative !== undefined && relative.value.unit !== "day") {
+            let date: moment.Moment = this.today.clone().add(relative.value.modifier, relative.value.unit);
+            return {
+                value: { start: date.clone().startOf(relative.value.unit), end: date.clone().endOf(relative.value.unit) },
+                next: relative.next
+            };
+        }
+
+        let month: Step<number> | undefined = this.month(i);
+        if (month !== undefined) {
+            let year: number = this.today.year();
+            let upcoming: boolean = true;
+            let next: number = month.next;
+            if (next < this.tokens.length && this.tokens[next].text.match(/^\d{4}$/)) {
+                year = parseInt(this.tokens[next].text);
+                upcoming = false;
+                next++;
+            }
+            let date: moment.Moment = moment({ year: year, month: month.value, day: 1 });
+            return { value: { start: date.clone().startOf('month'), end: date.clone().endOf('month'), upcoming: upcoming }, next: next };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Resolves a date within the period. For a month without year, a date before today is resolved within 
+     * the same month of next year ("first monday of october" after it has passed is the one of next year). 
+     */
+    private upcoming(period: Period, resolve: (period: Period) => moment.Moment | undefined): moment.Moment | undefined {
+        let date: moment.Moment | undefined = resolve(period);
+        if (period.upcoming !== true || date === undefined || !date.isBefore(this.today, 'day')) { return date; }
+
+        let start: moment.Moment = period.start.clone().add(1, 'year');
+        return resolve({ start: start.clone().startOf('month'), end: start.clone().endOf('month') });
+    }
+
+    /**
+     * A unit with modifier, e.g. "next week" (or "semaine prochaine" for postfix vocabularies)
+     */
+    private relativeUnit(i: number): Step<RelativeUnit> | undefined {
+        let modifier: Step<number> | undefined = this.modifier(i);
+        if (modifier !== undefined) {
+            let unit: Step<Unit> | undefined = this.unit(modifier.next);
+            if (unit !== undefined) { return { value: { modifier: modifier.value, unit: unit.value }, next: unit.next }; }
+        }
+
+        let unit: Step<Unit> | undefined = this.unit(i);
+        if (unit !== undefined && this.vocabulary.postfix === true) {
+            modifier = this.modifier(unit.next);
+            if (modifier !== undefined) { return { value: { modifier: modifier.value, unit: unit.value }, next: modifier.next }; }
+        }
+        return undefined;
+    }
+
+    /**
+     * A weekday with optional modifier (before or, for postfix vocabularies, after the weekday). Same semantics as
+     * the weekdays in the default input expression: without modifier the day in the current week, "next" is the
+     * upcoming, "last" the previous occurrence. The value is the offset in days.
+     */
+    private modifiedWeekday(i: number): Step<number> | undefined {
+        let modifier: Step<number> | undefined = this.modifier(i);
+        let weekday: Step<number> | undefined = this.weekday((modifier !== undefined) ? modifier.next : i);
+        if (weekday === undefined) { return undefined; }
+
+        let next: number = weekday.next;
+        if (modifier === undefined && this.vocabulary.postfix === true) {
+            modifier = this.modifier(weekday.next);
+            if (modifier !== undefined) { next = modifier.next; }
+        }
+
+        let diff: number = weekday.value - this.today.isoWeekday();
+        if (modifier !== undefined && modifier.value > 0 && diff <= 0) { diff += 7; }
+        if (modifier !== undefined && modifier.value < 0 && diff >= 0) { diff -= 7; }
+        return { value: diff, next: next };
+    }
+
+    private nthWeekdayOfPeriod(ordinal: number, weekday: number, period: Period): moment.Moment | undefined {
+        let date: moment.Moment;
+        if (ordinal < 0) {
+            date = period.end.clone().startOf('day');
+            while (date.isoWeekday() !== weekday) { date.subtract(1, 'day'); }
+        } else {
+            date = period.start.clone().startOf('day');
+            while (date.isoWeekday() !== weekday) { date.add(1, 'day'); }
+            date.add(ordinal - 1, 'weeks');
+        }
+        return (date.isBetween(period.start, period.end, undefined, '[]')) ? date : undefined;
+    }
+
+    private nthDayOfPeriod(ordinal: number, period: Period): moment.Moment | undefined {
+        let date: moment.Moment = (ordinal < 0) ? period.end.clone().startOf('day') : period.start.clone().add(ordinal - 1, 'days');
+        return (date.isSameOrBefore(period.end)) ? date : undefined;
+    }
+
+
+    /**
+     * Checks if one of the words (or phrases, like "il y a") starts at the given token.
+     *
+     * @returns the index of the token following the word, or undefined
+     */
+    private word(i: number, words: string[]): number | undefined {
+        if (i < 0 || i >= this.tokens.length) { return undefined; }
+
+        // longest phrases first
+        let phrases: string[][] = words.map(w => w.split(/\s+/)).sort((a, b) => b.length - a.length);
+        for (let phrase of phrases) {
+            if (i + phrase.length > this.tokens.length) { continue; }
+            if (phrase.every((p, k) => this.tokens[i + k].text === p)) { return i + phrase.length; }
+        }
+        return undefined;
+    }
+
+    private indexIn(i: number, words: string[][]): Step<number> | undefined {
+        for (let index = 0; index < words.length; index++) {
+            let next: number | undefined = this.word(i, words[index]);
+            if (next !== undefined) { return { value: index, next: next }; }
+        }
+        return undefined;
+    }
+
+    private number(i: number): Step<number> | undefined {
+        if (i < 0 || i >= this.tokens.length) { return undefined; }
+        if (this.tokens[i].text.match(/^\d+$/)) { return { value: parseInt(this.tokens[i].text), next: i + 1 }; }
+
+        let one: number | undefined = this.word(i, this.vocabulary.one);
+        return (one === undefined) ? undefined : { value: 1, next: one };
+    }
+
+    private unit(i: number): Step<Unit> | undefined {
+        let units = this.vocabulary.units;
+        let candidates: [Unit, string[]][] = [["day", units.day], ["week", units.week], ["month", units.month], ["year", units.year]];
+        for (let [unit, words] of candidates) {
+            let next: number | undefined = this.word(i, words);
+            if (next !== undefined) { return { value: unit, next: next }; }
+        }
+        return undefined;
+    }
+
+    /** +1 for next, -1 for last, 0 for this */
+    private modifier(i: number): Step<number> | undefined {
+        let next: number | undefined = this.word(i, this.vocabulary.next);
+        if (next !== undefined) { return { value: 1, next: next }; }
+        next = this.word(i, this.vocabulary.last);
+        if (next !== undefined) { return { value: -1, next: next }; }
+        next = this.word(i, this.vocabulary.this);
+        if (next !== undefined) { return { value: 0, next: next }; }
+        return undefined;
+    }
+
+    /** 1 to 5 for first to fifth (also 1st, 2nd, ...), -1 for last */
+    private ordinal(i: number): Step<number> | undefined {
+        let last: number | undefined = this.word(i, this.vocabulary.last);
+        if (last !== undefined) { return { value: -1, next: last }; }
+
+        let index: Step<number> | undefined = this.indexIn(i, this.vocabulary.ordinals);
+        if (index !== undefined) { return { value: index.value + 1, next: index.next }; }
+
+        let numeric: RegExpMatchArray | null = (i >= 0 && i < this.tokens.length) ? this.tokens[i].text.match(/^(\d{1,2})(?:st|nd|rd|th|\.)$/) : null;
+        return (numeric !== null) ? { value: parseInt(numeric[1]), next: i + 1 } : undefined;
+    }
+
+    /** 1 (monday) to 7 (sunday) */
+    private weekday(i: number): Step<number> | undefined {
+        let index: Step<number> | undefined = this.indexIn(i, this.vocabulary.weekdays);
+        return (index === undefined) ? undefined : { value: index.value + 1, next: index.next };
+    }
+
+    /** 0 (january) to 11 (december) */
+    private month(i: number): Step<number> | undefined {
+        return this.indexIn(i, this.vocabulary.months);
+    }
+}
@@ -39,6 +39,83 @@ export {
 
 } from './util';
 
+export {
+    DateRange,
+    DateVocabulary,
+    ENGLISH_DATE_VOCABULARY,
+    RelativeDate,
+    RelativePeriod,
+    parseRelativeDate,
+    parseRelativePeriod
+} from './dates';
+
+export {
+    TaskMetadata,
+    TaskLine,
+    PRIORITIES,
+    TASK_STATES,
+    parseTaskMetadata,
+    parseTaskLine,
+    isOverdue
+} from './tasks';
+
+export {
+    DurationFormat,
+    findTimes,
+    findNumbers,
+    computeDuration,
+    formatDuration
+} from './time';
+
+export {
+    SearchQuery,
+    parseSearchQuery,
+    matchesSearchQuery
+} from './search';
+
+export {
+    TagMatch,
+    findTags,
+    isValidTag
+} from './tags';
+
+export {
+    CalendarDay,
+    buildCalendarMonth,
+    getCalendarRange
+} from './calendar';
+
+export {
+    RetrospectiveDay,
+    RetrospectiveEntry,
+    getRetrospectiveDays,
+    getExcerpt,
+    buildRetrospectiveReport
+} from './retrospective';
+
+export {
+    TemplateContext,
+    renderTemplate,
+    findIncludes,
+    evaluateCondition
+} from './template';
+
+export {
+    JournalSettings,
+    SettingsProblem,
+    LEGACY_SETTINGS,
+    LEGACY_TEMPLATE_SETTINGS,
+    validateSettings,
+    migrateSettings
+} from './settings';
+
+export {
+    TrackedTime,
+    parseTrackLine,
+    buildTimesheetReport,
+    buildTimesheetCsv
+} from './timesheet';
+
 
 /*
 declare module Comm {
@@ -109,6 +109,18 @@ export class Logger {
         console.error("[ERROR]", message, ...optionalParams);
     }
 
+    public warn(message: any, ...optionalParams: any[]): void {
+        this.appendCurrentTime();
+        this.channel.append(" [WARN] ");
+
+        this.channel.append(message);
+        optionalParams.forEach(msg => this.channel.append(" " + msg));
+
+        this.channel.appendLine("");
+
+        console.warn("[WARN]", message, ...optionalParams);
+    }
+
 
 
     private appendCurrentTime() : void {
@@ -0,0 +1,106 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import * as moment from 'moment';
+
+/**
+ * A day looked back to from the current day, e.g. "One week ago" or "2024"
+ */
+export interface RetrospectiveDay {
+    label: string;
+    date: Date;
+}
+
+/**
+ * A journal entry of a retrospective day
+ */
+export interface RetrospectiveEntry extends RetrospectiveDay {
+    /** path of the journal entry */
+    path: string;
+    /** link to the journal entry (used in the report) */
+    link: string;
+    /** the first lines of the entry (without headings) */
+    excerpt: string;
+}
+
+// maximal length of an excerpt (in characters)
+const EXCERPT_LENGTH: number = 300;
+
+/**
+ * Returns the days to look back to: one week, one month and six months ago, followed by the same day in 
+ * every previous year (until the given year). 
+ *
+ * @param {Date} today the current day
+ * @param {number} since the year of the oldest journal entry
+ * @returns {RetrospectiveDay[]} the days, the most recent first
+ */
+export function getRetrospectiveDays(today: Date, since: number): RetrospectiveDay[] {
+    let days: RetrospectiveDay[] = [
+        { label: "One week ago", date: moment(today).subtract(1, 'weeks').toDate() },
+        { label: "One month ago", date: moment(today).subtract(1, 'months').toDate() },
+        { label: "Six months ago", date: moment(today).subtract(6, 'months').toDate() }
+    ];
+
+    for (let years = 1; moment(today).year() - years >= since; years++) {
+        let date: moment.Moment = moment(today).subtract(years, 'years');
+        days.push({ label: years === 1 ? "One year ago" : years + " years ago", date: date.toDate() });
+    }
+    return days;
+}
+
+/**
+ * Returns the first lines of the journal page (headings and empty lines are skipped), shortened to 300 characters. 
+ */
+export function getExcerpt(content: string): string {
+    let excerpt: string = content
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !/^#+\s/.test(line))
+        .join("\n");
+
+    return (excerpt.length > EXCERPT_LENGTH) ? excerpt.substring(0, EXCERPT_LENGTH).trim() + " …" : excerpt;
+}
+
+/**
+ * Builds the markdown report "On this day" with the excerpts of the journal entries. 
+ *
+ * @param {Date} today the current day
+ * @param {RetrospectiveEntry[]} entries the existing entries of the retrospective days
+ * @returns {string} the report (markdown)
+ */
+export function buildRetrospectiveReport(today: Date, entries: RetrospectiveEntry[]): string {
+    let lines: string[] = ["# On this day: " + moment(today).format("dddd, LL"), ""];
+
+    if (entries.length === 0) {
+        lines.push("There are no journal entries for this day in the past.", "");
+    }
+
+    entries.forEach(entry => {
+        lines.push("## " + entry.label + ": [" + moment(entry.date).format("ddd, LL") + "](" + entry.link + ")", "");
+        if (entry.excerpt.length > 0) {
+            entry.excerpt.split("\n").forEach(line => lines.push("> " + line));
+        } else {
+            lines.push("> _(empty)_");
+        }
+        lines.push("");
+    });
+
+    return lines.join("\n");
+}
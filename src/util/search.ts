@@ -0,0 +1,109 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import * as moment from 'moment';
+import { isValidTag } from './tags';
+
+/**
+ * A search over the journal, e.g. "invoice #clientA scope:work after:2026-01-01 type:note"
+ */
+export interface SearchQuery {
+    /** the words (or quoted phrases) which have to occur in a line, lower case */
+    terms: string[];
+    /** the tags (without "#") the page has to contain */
+    tags: string[];
+    /** the scopes to search in (all if empty) */
+    scopes: string[];
+    /** only pages of this day or later */
+    after?: Date;
+    /** only pages of this day or earlier */
+    before?: Date;
+    /** "entry" or "note" (both if empty) */
+    types: string[];
+}
+
+const FILTER_EXPRESSION: RegExp = /^(scope|after|before|type):(.+)$/i;
+const TOKEN_EXPRESSION: RegExp = /"([^"]*)"|(\S+)/g;
+
+
+/**
+ * Splits the search input into the terms and the filters "#tag", "scope:work", "after:2026-01-01", 
+ * "before:2026-12-31" and "type:note" (or "type:entry"). Filters with invalid values are searched as terms. 
+ *
+ * @param value the input of the user
+ * @returns the query
+ */
+export function parseSearchQuery(value: string): SearchQuery {
+    let query: SearchQuery = { terms: [], tags: [], scopes: [], types: [] };
+    let match: RegExpExecArray | null;
+
+    TOKEN_EXPRESSION.lastIndex = 0;
+    while ((match = TOKEN_EXPRESSION.exec(value)) !== null) {
+        if (match[1] !== undefined) {
+            if (match[1].trim().length > 0) query.terms.push(match[1].toLowerCase());
+            continue;
+        }
+
+        let token: string = match[2];
+        if (token.startsWith("#") && isValidTag(token.substring(1))) {
+            query.tags.push(token.substring(1));
+            continue;
+        }
+
+        let filter: RegExpMatchArray | null = token.match(FILTER_EXPRESSION);
+        if (filter !== null && applyFilter(query, filter[1].toLowerCase(), filter[2])) continue;
+
+        query.terms.push(token.toLowerCase());
+    }
+
+    return query;
+}
+
+/**
+ * Checks whether the line contains all terms of the query (case insensitive). Without terms, lines with 
+ * one of the tags match. 
+ *
+ * @param query the search
+ * @param line the line of a journal page
+ */
+export function matchesSearchQuery(query: SearchQuery, line: string): boolean {
+    let text: string = line.toLowerCase();
+    if (query.terms.length > 0) return query.terms.every(term => text.indexOf(term) >= 0);
+    return query.tags.some(tag => text.match(new RegExp("(?:^|\\s)#" + tag.toLowerCase() + "(?![\\p{L}\\p{N}_-])", "u")) !== null);
+}
+
+function applyFilter(query: SearchQuery, key: string, value: string): boolean {
+    switch (key) {
+        case "scope":
+            query.scopes.push(value);
+            return true;
+        case "type":
+            if (!value.match(/^(entry|note)$/i)) return false;
+            query.types.push(value.toLowerCase());
+            return true;
+        default:
+            let date: moment.Moment = moment(value, ["YYYY-MM-DD", "YYYY-MM"], true);
+            if (!date.isValid()) return false;
+
+            if (key === "after") query.after = date.startOf('day').toDate();
+            else query.before = date.endOf(value.length > 7 ? 'day' : 'month').toDate();
+            return true;
+    }
+}
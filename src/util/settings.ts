@@ -0,0 +1,293 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import { renderTemplate, findIncludes, evaluateCondition } from './template';
+
+/**
+ * The journal settings of one settings.json (user, workspace or folder settings), the keys are without "journal."
+ */
+export type JournalSettings = { [key: string]: unknown };
+
+/**
+ * A problem in the journal settings, e.g. a deprecated setting or a scope without name
+ */
+export interface SettingsProblem {
+    /** the setting, e.g. "journal.scopes" */
+    key: string;
+    message: string;
+    severity: "error" | "warning";
+    /** true if the problem is fixed by the command "journal.migrateSettings" */
+    migratable: boolean;
+}
+
+/**
+ * The template settings used before "journal.templates" (with the name of the template and the keys of the 
+ * text it is placed after)
+ */
+export const LEGACY_TEMPLATE_SETTINGS: { key: string, name: string, after: string[] }[] = [
+    { key: "tpl-entry", name: "entry", after: [] },
+    { key: "tpl-note", name: "note", after: [] },
+    { key: "tpl-memo", name: "memo", after: ["tpl-memo-after", "memo-after"] },
+    { key: "tpl-task", name: "task", after: ["tpl-task-after", "task-after"] },
+    { key: "tpl-files", name: "note-link", after: ["tpl-files-after", "files-after"] }
+];
+
+/**
+ * All settings which are replaced by the command "journal.migrateSettings"
+ */
+export const LEGACY_SETTINGS: string[] = ["pattern"].concat(...LEGACY_TEMPLATE_SETTINGS.map(legacy => [legacy.key].concat(legacy.after)));
+
+const PATTERN_NAMES: string[] = ["notes", "entries", "weeks", "months"];
+
+// the variables resolved when a template is used, names ending with ":" have a format or name (e.g. ${d:LL} or ${env:HOME})
+const TEMPLATE_VARIABLES: string[] = ["input", "tags", "title", "link", "start", "end", "duration", "base", "year", "month", "day",
+    "localTime", "localDate", "weekday", "week", "isoYear", "quarter", "dayOfYear", "yesterday", "tomorrow", "prevEntryLink",
+    "nextEntryLink", "d:", "yesterday:", "tomorrow:", "env:", "config:"];
+
+
+/**
+ * Checks the journal settings for deprecated keys, values of the wrong type, scopes without names and 
+ * invalid templates. Unknown variables in templates are printed as they are, they are reported as warnings. 
+ *
+ * @param {JournalSettings} settings the settings of one settings.json
+ * @param {string[]} [variables] the names of the user-defined variables ("journal.variables" of all settings)
+ * @returns {SettingsProblem[]} the problems, in the order of the settings
+ */
+export function validateSettings(settings: JournalSettings, variables: string[] = []): SettingsProblem[] {
+    let problems: SettingsProblem[] = [];
+    let report = (key: string, severity: "error" | "warning", message: string, migratable: boolean = false) =>
+        problems.push({ key: "journal." + key, message: message, severity: severity, migratable: migratable });
+
+    if (settings.pattern !== undefined) {
+        report("pattern", "warning", "The setting 'journal.pattern' is not used anymore, the patterns of notes are configured in 'journal.patterns'.", true);
+    }
+
+    LEGACY_TEMPLATE_SETTINGS.forEach(legacy => {
+        if (settings[legacy.key] !== undefined) {
+            report(legacy.key, "warning", "The setting 'journal." + legacy.key + "' is deprecated, use the template '" + legacy.name + "' in 'journal.templates' instead.", true);
+        }
+        legacy.after
+            .filter(key => settings[key] !== undefined)
+            .forEach(key => report(key, "warning", "The setting 'journal." + key + "' is deprecated, use 'after' of the template '" + legacy.name + "' in 'journal.templates' instead.", true));
+    });
+
+    if (settings.patterns !== undefined) {
+        validatePatterns(settings.patterns, "'journal.patterns'").forEach(message => report("patterns", "error", message));
+    }
+
+    if (settings.templates !== undefined) {
+        validateTemplates(settings.templates, "'journal.templates'").forEach(message => report("templates", "error", message));
+        findUnknownVariables(settings.templates, "'journal.templates'", variables).forEach(message => report("templates", "warning", message));
+    }
+
+    const userVariables: unknown = settings.variables;
+    if (userVariables !== undefined) {
+        if (!isObject(userVariables)) {
+            report("variables", "error", "'journal.variables' has to be an object, e.g. {\"name\": \"value\"}.");
+        } else {
+            Object.keys(userVariables)
+                .filter(name => typeof userVariables[name] !== "string")
+                .forEach(name => report("variables", "error", "The value of the variable '" + name + "' in 'journal.variables' has to be a string."));
+        }
+    }
+
+    let scopes: unknown = settings.scopes;
+    if (scopes !== undefined) {
+        if (isObject(scopes) && Object.keys(scopes).length === 0) {
+            report("scopes", "warning", "'journal.scopes' has to be a list of scopes ([]), not an object ({}).", true);
+        } else if (!Array.isArray(scopes)) {
+            report("scopes", "error", "'journal.scopes' has to be a list of scopes, e.g. [{\"name\": \"work\", \"base\": \"...\"}].");
+        } else {
+            let names: string[] = [];
+            scopes.forEach((scope: unknown, index: number) => {
+                if (!isObject(scope) || typeof scope.name !== "string" || scope.name.length === 0) {
+                    report("scopes", "error", "The scope #" + (index + 1) + " in 'journal.scopes' has no name, it is ignored.");
+                    return;
+                }
+
+                let name: string = scope.name;
+                let label: string = "the scope '" + name + "'";
+                if (name === "default") report("scopes", "error", "The name 'default' is reserved for the default scope, rename " + label + ".");
+                if (names.indexOf(name) >= 0) report("scopes", "warning", "The scope '" + name + "' is defined more than once in 'journal.scopes'.");
+                names.push(name);
+
+                if (isObject(scope.patterns) && scope.patterns.base !== undefined) {
+                    report("scopes", "warning", "The base path of " + label + " is configured in 'patterns.base' (where it is ignored) instead of 'base'.", scope.base === undefined);
+                }
+                if (scope.base !== undefined && typeof scope.base !== "string") report("scopes", "error", "The base path of " + label + " has to be a string.");
+                if (scope.patterns !== undefined) validatePatterns(scope.patterns, label, ["base"]).forEach(message => report("scopes", "error", message));
+                if (scope.templates !== undefined) validateTemplates(scope.templates, label).forEach(message => report("scopes", "error", message));
+                if (scope.templates !== undefined) findUnknownVariables(scope.templates, label, variables).forEach(message => report("scopes", "warning", message));
+            });
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Rewrites the deprecated journal settings to the current schema: 
+ * 
+ * - the patterns of notes in "journal.pattern" are moved to "journal.patterns"
+ * - the templates "journal.tpl-*" (and their "*-after") are moved to "journal.templates"
+ * - an empty object in "journal.scopes" is replaced with an empty list, "patterns.base" of a scope is moved to "base"
+ *
+ * @param {JournalSettings} settings the settings of one settings.json
+ * @param {unknown[]} defaultTemplates the default value of "journal.templates" (used if the settings have no templates)
+ * @returns {JournalSettings} the changed settings, removed settings have the value undefined
+ */
+export function migrateSettings(settings: JournalSettings, defaultTemplates: unknown[]): JournalSettings {
+    let changes: JournalSettings = {};
+
+    const pattern: unknown = settings.pattern;
+    if (pattern !== undefined) {
+        // the patterns of notes were read from "journal.pattern", all others from "journal.patterns"
+        if (isObject(pattern)) {
+            let patterns: JournalSettings = Object.assign({}, isObject(settings.patterns) ? settings.patterns : {});
+            PATTERN_NAMES
+                .filter(name => pattern[name] !== undefined && (name === "notes" || patterns[name] === undefined))
+                .forEach(name => patterns[name] = pattern[name]);
+            changes.patterns = patterns;
+        }
+        changes.pattern = undefined;
+    }
+
+    let legacyTemplates = LEGACY_TEMPLATE_SETTINGS.filter(legacy => settings[legacy.key] !== undefined || legacy.after.some(key => settings[key] !== undefined));
+    if (legacyTemplates.length > 0) {
+        let templates: unknown[] = (Array.isArray(settings.templates) ? settings.templates : defaultTemplates)
+            .map((template: unknown) => isObject(template) ? Object.assign({}, template) : template);
+
+        legacyTemplates.forEach(legacy => {
+            let value: unknown = settings[legacy.key];
+            if (typeof value === "string" && value.length > 0) {
+                let template: { [key: string]: string } = { name: legacy.name, template: value };
+                if (legacy.after.length > 0) {
+                    let after: unknown = legacy.after.map(key => settings[key]).find(value => typeof value === "string" && value.length > 0);
+                    template.after = (typeof after === "string") ? after : "";
+                }
+
+                let index: number = templates.findIndex(tpl => isObject(tpl) && tpl.name === legacy.name && tpl.when === undefined);
+                if (index >= 0) templates[index] = template;
+                else templates.push(template);
+            }
+
+            // without the template, the "after" was ignored
+            [legacy.key].concat(legacy.after)
+                .filter(key => settings[key] !== undefined)
+                .forEach(key => changes[key] = undefined);
+        });
+        changes.templates = templates;
+    }
+
+    let scopes: unknown = settings.scopes;
+    let hasBaseInPatterns = (scope: unknown): boolean => isObject(scope) && isObject(scope.patterns) && scope.patterns.base !== undefined && scope.base === undefined;
+    if (isObject(scopes) && Object.keys(scopes).length === 0) {
+        changes.scopes = [];
+    } else if (Array.isArray(scopes) && scopes.some(hasBaseInPatterns)) {
+        changes.scopes = scopes.map((scope: unknown) => {
+            if (!isObject(scope) || !isObject(scope.patterns) || !hasBaseInPatterns(scope)) return scope;
+
+            let patterns: JournalSettings = Object.assign({}, scope.patterns);
+            delete patterns.base;
+            return Object.assign({}, scope, { base: scope.patterns.base, patterns: patterns });
+        });
+    }
+
+    return changes;
+}
+
+
+function isObject(value: unknown): value is JournalSettings {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function validatePatterns(patterns: unknown, label: string, ignore: string[] = []): string[] {
+    if (!isObject(patterns)) return ["The patterns of " + label + " have to be an object with the keys " + PATTERN_NAMES.join(", ") + "."];
+
+    let messages: string[] = [];
+    Object.keys(patterns)
+        .filter(name => ignore.indexOf(name) < 0)
+        .forEach(name => {
+            const pattern: unknown = patterns[name];
+            if (PATTERN_NAMES.indexOf(name) < 0) {
+                messages.push("Unknown pattern '" + name + "' in " + label + ", expected one of " + PATTERN_NAMES.join(", ") + ".");
+            } else if (!isObject(pattern) || ["path", "file"].some(part => pattern[part] !== undefined && typeof pattern[part] !== "string")) {
+                messages.push("The pattern '" + name + "' in " + label + " has to be an object with the strings 'path' and 'file'.");
+            }
+        });
+    return messages;
+}
+
+function validateTemplates(templates: unknown, label: string): string[] {
+    if (!Array.isArray(templates)) return ["The templates of " + label + " have to be a list, e.g. [{\"name\": \"entry\", \"template\": \"...\"}]."];
+
+    let messages: string[] = [];
+    templates.forEach((template: unknown, index: number) => {
+        if (!isObject(template) || typeof template.name !== "string" || template.name.length === 0) {
+            messages.push("The template #" + (index + 1) + " in " + label + " has no name, it is ignored.");
+            return;
+        }
+
+        let name: string = "The template '" + template.name + "' in " + label;
+        if (typeof template.template !== "string" && typeof template.file !== "string") {
+            messages.push(name + " has neither a 'template' nor a 'file'.");
+        }
+        if (template.when !== undefined) {
+            try {
+                evaluateCondition(String(template.when), {});
+            } catch (error) {
+                messages.push(name + " has an invalid condition: " + error.message);
+            }
+        }
+        if (typeof template.template === "string") {
+            try {
+                // includes are checked when the template is used (they might be files)
+                let includes: Map<string, string> = new Map();
+                findIncludes(template.template).forEach(include => includes.set(include, ""));
+                renderTemplate(template.template, {}, includes);
+            } catch (error) {
+                messages.push(name + " is invalid: " + error.message);
+            }
+        }
+    });
+    return messages;
+}
+
+function findUnknownVariables(templates: unknown, label: string, variables: string[]): string[] {
+    if (!Array.isArray(templates)) return [];
+
+    let messages: string[] = [];
+    templates.forEach((template: unknown) => {
+        if (!isObject(template) || typeof template.name !== "string" || typeof template.template !== "string") return;
+
+        let unknown: string[] = [];
+        (template.template.match(/\$\{[^}]*\}/g) || []).forEach((variable: string) => {
+            let name: string = variable.substring(2, variable.length - 1);
+            if (variables.indexOf(name) >= 0 || unknown.indexOf(variable) >= 0) return;
+            if (TEMPLATE_VARIABLES.some(known => name === known || (known.endsWith(":") && name.startsWith(known)))) return;
+            unknown.push(variable);
+        });
+        if (unknown.length > 0) {
+            messages.push("The template '" + template.name + "' in " + label + " uses the unknown variables " + unknown.join(", ") +
+                ", they are printed as they are. Check the spelling or define the variables in 'journal.variables'.");
+        }
+    });
+    return messages;
+}
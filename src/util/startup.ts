@@ -25,6 +25,7 @@ import * as Q from 'q';
 import * as Path from 'path';
 import * as fs from 'fs';
 import { isNullOrUndefined } from 'util';
+import { JournalPageType } from '../ext/conf';
 
 export class Startup {
 
@@ -70,6 +71,90 @@ export class Startup {
     }
 
 
+    /**
+     * Validates the settings (at startup and whenever they change) and registers the command to migrate
+     * deprecated settings.
+     */
+    public registerSettings(ctrl: J.Util.Ctrl, context: vscode.ExtensionContext): Q.Promise<J.Util.Ctrl> {
+        return Q.Promise<J.Util.Ctrl>((resolve, reject) => {
+            ctrl.logger.trace("Entering registerSettings() in util/startup.ts");
+
+            let commands = new J.Extension.JournalCommands(ctrl);
+            let validator = new J.Extension.SettingsValidator(ctrl);
+
+            try {
+                context.subscriptions.push(
+                    validator,
+                    vscode.commands.registerCommand('journal.migrateSettings', () => {
+                        validator.migrate()
+                            .then(() => validator.validate())
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.workspace.onDidChangeConfiguration(event => {
+                        if (!event.affectsConfiguration("journal")) return;
+                        ctrl.updateConfiguration(vscode.workspace.getConfiguration("journal"));
+                        validator.validate()
+                            .catch(error => ctrl.logger.error("Failed to validate the settings.", error))
+                            .done();
+                    })
+                );
+
+                validator.validate()
+                    .then(problems => {
+                        if (!problems.some(problem => problem.migratable)) return;
+                        vscode.window.showWarningMessage("Some of your journal settings are deprecated (see the problems in the settings).", "Migrate Settings")
+                            .then(action => { if (action === "Migrate Settings") vscode.commands.executeCommand("journal.migrateSettings"); });
+                    })
+                    .catch(error => ctrl.logger.error("Failed to validate the settings.", error))
+                    .done();
+
+                resolve(ctrl);
+
+            } catch (error) {
+                reject(error);
+            }
+        });
+    }
+
+    /**
+     * Loads the index of the journal (scanning for changes in the background) and watches the base directories. 
+     */
+    public registerIndex(ctrl: J.Util.Ctrl, context: vscode.ExtensionContext): Q.Promise<J.Util.Ctrl> {
+        return Q.Promise<J.Util.Ctrl>((resolve, reject) => {
+            ctrl.logger.trace("Entering registerIndex() in util/startup.ts");
+
+            try {
+                context.subscriptions.push(
+                    ctrl.indexer,
+                    vscode.workspace.onDidChangeConfiguration(event => {
+                        // the base directories of the journal might have changed (the configuration has been updated in registerSettings)
+                        if (!["journal.base", "journal.scopes", "journal.variables"].some(section => event.affectsConfiguration(section))) return;
+                        ctrl.indexer.reload()
+                            .catch(error => ctrl.logger.error("Failed to index the journal.", error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.rebuildIndex', () => {
+                        ctrl.indexer.rebuild()
+                            .then(() => vscode.window.showInformationMessage("The journal has been indexed."))
+                            .catch(error => new J.Extension.JournalCommands(ctrl).showError(error))
+                            .done();
+                    })
+                );
+
+                ctrl.indexer.watch();
+                ctrl.indexer.initialize(context.globalStoragePath)
+                    .catch(error => ctrl.logger.error("Failed to index the journal.", error))
+                    .done();
+
+                resolve(ctrl);
+
+            } catch (error) {
+                reject(error);
+            }
+        });
+    }
+
     public registerCommands(ctrl: J.Util.Ctrl, context: vscode.ExtensionContext): Q.Promise<J.Util.Ctrl> {
         return Q.Promise<J.Util.Ctrl>((resolve, reject) => {
             ctrl.logger.trace("Entering registerCommands() in util/startup.ts"); 
@@ -93,6 +178,16 @@ export class Startup {
                             .catch(error => commands.showError(error))
                             .done();
                     }),
+                    vscode.commands.registerCommand('journal.week', () => {
+                        commands.showPeriod(JournalPageType.WEEK)
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.month', () => {
+                        commands.showPeriod(JournalPageType.MONTH)
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
                     vscode.commands.registerCommand('journal.day', () => {
                         commands.processInput()
                             .catch(error => {
@@ -105,6 +200,51 @@ export class Startup {
                             .catch(error => commands.showError(error))
                             .done();
                     }),
+                    vscode.commands.registerCommand('journal.overdue', () => {
+                        commands.showOverdueTasks()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.search', () => {
+                        commands.search()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.toggleTask', () => {
+                        commands.toggleTask()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.cycleTask', () => {
+                        commands.cycleTask()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.printTime', () => {
+                        commands.printTime()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.printDuration', () => {
+                        commands.printDuration()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.printSum', () => {
+                        commands.printSum()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.timesheet', () => {
+                        commands.showTimesheet()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.exportTimesheet', () => {
+                        commands.exportTimesheet()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
                     vscode.commands.registerCommand('journal.open', () => {
                         commands.loadJournalWorkspace()
                             .catch(error => commands.showError(error))
@@ -122,4 +262,120 @@ export class Startup {
 
     }
 
-}
\ No newline at end of file
+    /**
+     * Registers the tree views (open tasks) with their commands. The views are refreshed whenever a file in one 
+     * of the journal's base directories changes. 
+     */
+    public registerViews(ctrl: J.Util.Ctrl, context: vscode.ExtensionContext): Q.Promise<J.Util.Ctrl> {
+        return Q.Promise<J.Util.Ctrl>((resolve, reject) => {
+            ctrl.logger.trace("Entering registerViews() in util/startup.ts");
+
+            let commands = new J.Extension.JournalCommands(ctrl);
+            let tasks = new J.Extension.TaskTreeProvider(ctrl);
+            let tags = new J.Extension.TagTreeProvider(ctrl);
+            let calendar = new J.Extension.Calendar(ctrl, context.extensionPath);
+            let retrospective = new J.Extension.RetrospectiveTreeProvider(ctrl);
+
+            try {
+                context.subscriptions.push(
+                    vscode.window.registerTreeDataProvider('journal.tasks', tasks),
+                    vscode.commands.registerCommand('journal.tasks.refresh', () => tasks.refresh()),
+                    vscode.commands.registerCommand('journal.tasks.open', (item: J.Extension.TaskTreeItem) => {
+                        commands.openTask(item.task!)
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.tasks.complete', (item: J.Extension.TaskTreeItem) => {
+                        commands.completeTask(item.task!)
+                            .then(() => tasks.refresh())
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.tasks.reschedule', (item: J.Extension.TaskTreeItem) => {
+                        commands.rescheduleTask(item.task!)
+                            .then(() => tasks.refresh())
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.window.registerTreeDataProvider('journal.tags', tags),
+                    vscode.commands.registerCommand('journal.tags.refresh', () => tags.refresh()),
+                    vscode.commands.registerCommand('journal.renameTag', (item?: J.Extension.TagTreeItem) => {
+                        commands.renameTag(isNullOrUndefined(item) ? undefined : item!.tag)
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.window.registerTreeDataProvider('journal.onThisDay', retrospective),
+                    vscode.commands.registerCommand('journal.onThisDay.refresh', () => retrospective.refresh()),
+                    vscode.commands.registerCommand('journal.onThisDay', () => {
+                        commands.showOnThisDay()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    calendar,
+                    vscode.commands.registerCommand('journal.calendar', () => {
+                        calendar.show()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    })
+                );
+
+                // the index is updated by its file system watchers (with every save), the views are refreshed once the changes settle
+                let refreshTimer: NodeJS.Timer | undefined;
+                context.subscriptions.push(ctrl.indexer.onDidChange(() => {
+                    if (refreshTimer !== undefined) clearTimeout(refreshTimer);
+                    refreshTimer = setTimeout(() => {
+                        refreshTimer = undefined;
+                        tasks.refresh();
+                        tags.refresh();
+                        retrospective.refresh();
+                    }, 500);
+                }), { dispose: () => { if (refreshTimer !== undefined) clearTimeout(refreshTimer); } });
+
+                resolve(ctrl);
+
+            } catch (error) {
+                reject(error);
+            }
+
+        });
+    }
+
+    /**
+     * Registers the time tracking commands with the timer in the status bar, and restores the timer of the last session. 
+     */
+    public registerStatusBar(ctrl: J.Util.Ctrl, context: vscode.ExtensionContext): Q.Promise<J.Util.Ctrl> {
+        return Q.Promise<J.Util.Ctrl>((resolve, reject) => {
+            ctrl.logger.trace("Entering registerStatusBar() in util/startup.ts");
+
+            let commands = new J.Extension.JournalCommands(ctrl);
+            let clock = new J.Extension.Clock(ctrl, context.globalState);
+
+            try {
+                context.subscriptions.push(
+                    clock,
+                    vscode.commands.registerCommand('journal.clockIn', (value?: string) => {
+                        clock.clockIn(value)
+                            .catch(error => commands.showError(error))
+                            .done();
+                    }),
+                    vscode.commands.registerCommand('journal.clockOut', () => {
+                        clock.clockOut()
+                            .catch(error => commands.showError(error))
+                            .done();
+                    })
+                );
+
+                clock.restore()
+                    .catch(error => ctrl.logger.error("Failed to restore the timer.", error))
+                    .done();
+
+                resolve(ctrl);
+
+            } catch (error) {
+                reject(error);
+            }
+
+        });
+    }
+
+}
@@ -0,0 +1,63 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+/**
+ * The name of a tag: letters and digits (of any language), "_" and "-", not starting with "-"
+ */
+const TAG_NAME: string = "[\\p{L}\\p{N}_][\\p{L}\\p{N}_-]*";
+
+/**
+ * A tag is a word starting with "#" (e.g. "#clientA", "#follow-up" or "#übersicht"), preceded by whitespace or at the 
+ * beginning of a line. Markdown headings ("# Title") are no tags. 
+ */
+const TAG_EXPRESSION: RegExp = new RegExp("(^|\\s)#(" + TAG_NAME + ")", "gu");
+
+/**
+ * The location of a tag within a line (the index points to the "#")
+ */
+export interface TagMatch {
+    tag: string;
+    index: number;
+    length: number;
+}
+
+/**
+ * Returns all tags within the text (including duplicates). 
+ *
+ * @param {string} text the text to search in
+ * @returns {TagMatch[]} the tags, the index is relative to the text
+ */
+export function findTags(text: string): TagMatch[] {
+    let tags: TagMatch[] = [];
+    let expression: RegExp = new RegExp(TAG_EXPRESSION.source, "gu");
+
+    let match: RegExpExecArray | null;
+    while ((match = expression.exec(text)) !== null) {
+        tags.push({ tag: match[2], index: match.index + match[1].length, length: match[2].length + 1 });
+    }
+    return tags;
+}
+
+/**
+ * Checks if the name (without "#") can be used as tag. 
+ */
+export function isValidTag(name: string): boolean {
+    return new RegExp("^" + TAG_NAME + "$", "u").test(name);
+}
@@ -0,0 +1,111 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import * as moment from 'moment';
+
+/**
+ * Metadata of a task, written inline in the task's text, e.g. "- [ ] Task: file taxes due:2026-11-01 !high"
+ */
+export interface TaskMetadata {
+    /** the date following "due:" */
+    due?: Date;
+    /** 1 (high), 2 (medium) or 3 (low), written as "!high" or "!1" */
+    priority?: number;
+}
+
+/** 
+ * The states of a task (the character within the checkbox) in the order they are cycled through: 
+ * open, in progress, completed, cancelled and deferred (or migrated)
+ */
+export const TASK_STATES: string[] = [" ", "/", "x", "-", ">"];
+
+/**
+ * A task in a line of a journal page: the bullet ("-", "*" or "+", with the indentation), the checkbox and the text
+ */
+export interface TaskLine {
+    /** the indentation and bullet before the checkbox, e.g. "  - " */
+    bullet: string;
+    /** the checkbox, e.g. "[/]" */
+    checkbox: string;
+    /** the state within the checkbox (see TASK_STATES), " " for an empty checkbox */
+    state: string;
+    text: string;
+}
+
+/** the names of the priorities, index 0 is priority 1 */
+export const PRIORITIES: string[] = ["high", "medium", "low"];
+
+const TASK_LINE_EXPRESSION: RegExp = /^(\s*[-*+]\s+)(\[(\s?|[xX\/\->])\])(?:\s+(.*))?$/;
+
+const DUE_EXPRESSION: RegExp = /(?:^|\s)due:(\d{4}-\d{2}-\d{2})(?=\s|$)/i;
+const PRIORITY_EXPRESSION: RegExp = /(?:^|\s)!(high|medium|low|[1-3])(?=\s|$)/i;
+
+
+/**
+ * Extracts the due date and priority from the text of a task.
+ *
+ * @param text the text of the task
+ * @returns the metadata found in the text (missing values are undefined)
+ */
+export function parseTaskMetadata(text: string): TaskMetadata {
+    let metadata: TaskMetadata = {};
+
+    let due: RegExpMatchArray | null = text.match(DUE_EXPRESSION);
+    if (due !== null) {
+        let date: moment.Moment = moment(due[1], "YYYY-MM-DD", true);
+        if (date.isValid()) { metadata.due = date.toDate(); }
+    }
+
+    let priority: RegExpMatchArray | null = text.match(PRIORITY_EXPRESSION);
+    if (priority !== null) {
+        let value: string = priority[1].toLowerCase();
+        metadata.priority = value.match(/^\d$/) ? parseInt(value) : PRIORITIES.indexOf(value) + 1;
+    }
+
+    return metadata;
+}
+
+/**
+ * Parses a task line, e.g. "- [ ] Task: call the bank" or "  + [/] write the report". 
+ *
+ * @param line the text of the line
+ * @returns the task, or undefined if the line is no task
+ */
+export function parseTaskLine(line: string): TaskLine | undefined {
+    let match: RegExpMatchArray | null = line.match(TASK_LINE_EXPRESSION);
+    if (match === null) return undefined;
+
+    return {
+        bullet: match[1],
+        checkbox: match[2],
+        state: (match[3].trim().length === 0) ? " " : match[3].toLowerCase(),
+        text: match[4] || ""
+    };
+}
+
+/**
+ * Checks whether the due date has passed (a task due today is not overdue).
+ *
+ * @param metadata the metadata of the task
+ * @param today the reference date
+ */
+export function isOverdue(metadata: TaskMetadata, today: Date = new Date()): boolean {
+    return metadata.due !== undefined && moment(metadata.due).isBefore(moment(today), 'day');
+}
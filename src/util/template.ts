@@ -0,0 +1,341 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+/**
+ * The values available in a template: simple values (e.g. weekday) and lists (e.g. the open tasks of yesterday)
+ */
+export type TemplateContext = { [key: string]: unknown };
+
+/**
+ * Templates can contain the following blocks (besides the ${...} variables, which are resolved afterwards): 
+ * 
+ * - {{name}} prints a value of the context (e.g. {{weekday}}, {{task.text}})
+ * - {{#if expression}} ... {{else if expression}} ... {{else}} ... {{/if}}, e.g. {{#if weekday == "Monday"}}
+ * - {{#each list}} ... {{else}} ... {{/each}} repeats the content for every item of the list ({{this}} is the 
+ *   item, {{@index}} and {{@number}} its position starting with 0 or 1, properties of the item can be used directly)
+ * - {{> name}} includes another template
+ * 
+ * Expressions support values of the context, strings ("Monday"), numbers, true and false, the comparisons 
+ * ==, !=, <, <=, >, >= and the operators &&, ||, ! (or "and", "or", "not") with parentheses. 
+ * 
+ * Lines with nothing but a block (e.g. "{{/if}}") are removed from the output. 
+ */
+
+type TemplateNode =
+    { kind: "text", text: string } |
+    { kind: "value", expression: string } |
+    { kind: "if", branches: { condition: string, body: TemplateNode[] }[], otherwise: TemplateNode[] } |
+    { kind: "each", expression: string, body: TemplateNode[], otherwise: TemplateNode[] } |
+    { kind: "include", name: string };
+
+type TagToken = { kind: "tag", type: "#" | "/" | ">" | "else" | "", content: string };
+
+type TemplateToken = { kind: "text", text: string } | TagToken;
+
+const TAG_EXPRESSION: RegExp = /\{\{\s*([#\/>]?)\s*([\s\S]*?)\s*\}\}/g;
+
+// protection against templates including each other
+const MAX_INCLUDE_DEPTH: number = 10;
+
+
+/**
+ * Renders the blocks of the template. 
+ *
+ * @param {string} template the template
+ * @param {TemplateContext} context the values used in the template
+ * @param {Map<string, string>} [includes] the templates which can be included, by name
+ * @returns {string} the rendered template
+ * @throws {Error} if the template is invalid (e.g. a block is not closed)
+ */
+export function renderTemplate(template: string, context: TemplateContext, includes: Map<string, string> = new Map()): string {
+    return render(parseTemplate(template), context, includes, 0);
+}
+
+/**
+ * Returns the names of the templates included in the template (not recursive)
+ */
+export function findIncludes(template: string): string[] {
+    let names: string[] = [];
+    tokenize(template).forEach(token => {
+        if (token.kind === "tag" && token.type === ">" && names.indexOf(token.content) < 0) names.push(token.content);
+    });
+    return names;
+}
+
+/**
+ * Evaluates a condition (as used in {{#if ...}}), e.g. 'weekday == "Saturday" || weekday == "Sunday"'
+ *
+ * @param {string} expression the condition
+ * @param {TemplateContext} context the values used in the condition
+ * @returns {boolean} the result
+ * @throws {Error} if the expression is invalid
+ */
+export function evaluateCondition(expression: string, context: TemplateContext): boolean {
+    return isTruthy(evaluate(expression, context));
+}
+
+
+function tokenize(template: string): TemplateToken[] {
+    let tokens: TemplateToken[] = [];
+    let expression: RegExp = new RegExp(TAG_EXPRESSION.source, "g");
+    let position: number = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = expression.exec(template)) !== null) {
+        let start: number = match.index;
+        let end: number = match.index + match[0].length;
+        let type: "#" | "/" | ">" | "else" | "" = <"#" | "/" | ">" | "">match[1];
+        let content: string = match[2];
+        if (type === "" && (content === "else" || content.startsWith("else "))) {
+            type = "else";
+            content = content.substring(4).trim();
+        }
+
+        // blocks standing alone in their line are removed with the line
+        if (type !== "") {
+            let lineStart: number = template.lastIndexOf("\n", start - 1) + 1;
+            let lineEnd: number = template.indexOf("\n", end);
+            if (lineEnd < 0) lineEnd = template.length;
+
+            if (lineStart >= position && template.substring(lineStart, start).trim().length === 0 && template.substring(end, lineEnd).trim().length === 0) {
+                start = lineStart;
+                end = (lineEnd < template.length) ? lineEnd + 1 : lineEnd;
+            }
+        }
+
+        if (start > position) tokens.push({ kind: "text", text: template.substring(position, start) });
+        tokens.push({ kind: "tag", type: type, content: content });
+
+        position = end;
+        expression.lastIndex = end;
+    }
+    if (position < template.length) tokens.push({ kind: "text", text: template.substring(position) });
+
+    return tokens;
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+    let tokens: TemplateToken[] = tokenize(template);
+    let index: number = 0;
+
+    // parses the nodes until one of the given closing tags
+    let parse = (closing: string[]): [TemplateNode[], TagToken | undefined] => {
+        let nodes: TemplateNode[] = [];
+        while (index < tokens.length) {
+            let token: TemplateToken = tokens[index++];
+
+            if (token.kind === "text") {
+                nodes.push({ kind: "text", text: token.text });
+                continue;
+            }
+
+            if (token.type === "/" || token.type === "else") {
+                let name: string = (token.type === "/") ? "/" + token.content : "else";
+                if (closing.indexOf(name) < 0) throw new Error("Unexpected {{" + (token.type === "/" ? "/" + token.content : "else") + "}} in template");
+                return [nodes, token];
+            }
+
+            if (token.type === ">") {
+                nodes.push({ kind: "include", name: token.content });
+            } else if (token.type === "") {
+                nodes.push({ kind: "value", expression: token.content });
+            } else if (token.content.startsWith("if ")) {
+                nodes.push(parseIf(token.content.substring(3).trim()));
+            } else if (token.content.startsWith("each ")) {
+                nodes.push(parseEach(token.content.substring(5).trim()));
+            } else {
+                throw new Error("Unknown block {{#" + token.content + "}} in template");
+            }
+        }
+
+        if (closing.length > 0) throw new Error("Missing {{" + closing[0] + "}} in template");
+        return [nodes, undefined];
+    };
+
+    let parseIf = (condition: string): TemplateNode => {
+        let branches: { condition: string, body: TemplateNode[] }[] = [];
+        let otherwise: TemplateNode[] = [];
+
+        while (true) {
+            let [body, end] = parse(["/if", "else"]);
+            branches.push({ condition: condition, body: body });
+            if (end!.type === "/") break;
+
+            if (end!.content.startsWith("if ")) {
+                // {{else if ...}}
+                condition = end!.content.substring(3).trim();
+                continue;
+            }
+
+            otherwise = parse(["/if"])[0];
+            break;
+        }
+        return { kind: "if", branches: branches, otherwise: otherwise };
+    };
+
+    let parseEach = (expression: string): TemplateNode => {
+        let [body, end] = parse(["/each", "else"]);
+        let otherwise: TemplateNode[] = (end!.type === "else") ? parse(["/each"])[0] : [];
+        return { kind: "each", expression: expression, body: body, otherwise: otherwise };
+    };
+
+    return parse([])[0];
+}
+
+function render(nodes: TemplateNode[], context: TemplateContext, includes: Map<string, string>, depth: number): string {
+    return nodes.map(node => {
+        switch (node.kind) {
+            case "text":
+                return node.text;
+            case "value":
+                return toText(evaluate(node.expression, context));
+            case "if":
+                let branch = node.branches.find(branch => isTruthy(evaluate(branch.condition, context)));
+                return render((branch !== undefined) ? branch.body : node.otherwise, context, includes, depth);
+            case "each":
+                let list: unknown = evaluate(node.expression, context);
+                let items: unknown[] = Array.isArray(list) ? list : [];
+                if (items.length === 0) return render(node.otherwise, context, includes, depth);
+
+                return items.map((item, index) => {
+                    let scope: TemplateContext = Object.assign({}, context, (typeof item === "object" && item !== null) ? item : {});
+                    scope["this"] = item;
+                    scope["@index"] = index;
+                    scope["@number"] = index + 1;
+                    return render(node.body, scope, includes, depth);
+                }).join("");
+            case "include":
+                let template: string | undefined = includes.get(node.name);
+                if (template === undefined) throw new Error("Unknown template {{> " + node.name + "}}");
+                if (depth >= MAX_INCLUDE_DEPTH) throw new Error("Too many nested includes in template {{> " + node.name + "}}");
+                return render(parseTemplate(template), context, includes, depth + 1);
+        }
+    }).join("");
+}
+
+function toText(value: unknown): string {
+    if (value === undefined || value === null) return "";
+    if (Array.isArray(value)) return value.map(toText).join(", ");
+    if (value instanceof Date) return value.toISOString();
+    return String(value);
+}
+
+function isTruthy(value: unknown): boolean {
+    return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+
+/**
+ * Evaluates the expression with a small recursive descent parser (no javascript is executed)
+ */
+function evaluate(expression: string, context: TemplateContext): unknown {
+    let tokens: string[] = expression.match(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|==|!=|<=|>=|&&|\|\||[<>!()]|[^\s<>=!()&|"']+/g) || [];
+    let index: number = 0;
+
+    let peek = (): string | undefined => tokens[index];
+    let next = (): string | undefined => tokens[index++];
+
+    let or = (): unknown => {
+        let left: unknown = and();
+        while (peek() === "||" || peek() === "or") {
+            next();
+            let right: unknown = and();
+            left = isTruthy(left) || isTruthy(right);
+        }
+        return left;
+    };
+
+    let and = (): unknown => {
+        let left: unknown = not();
+        while (peek() === "&&" || peek() === "and") {
+            next();
+            let right: unknown = not();
+            left = isTruthy(left) && isTruthy(right);
+        }
+        return left;
+    };
+
+    let not = (): unknown => {
+        if (peek() === "!" || peek() === "not") {
+            next();
+            return !isTruthy(not());
+        }
+        return comparison();
+    };
+
+    let comparison = (): unknown => {
+        let left: unknown = primary();
+        let operator: string | undefined = peek();
+        if (operator === undefined || ["==", "!=", "<", "<=", ">", ">="].indexOf(operator) < 0) return left;
+
+        next();
+        let right: unknown = primary();
+        if (operator === "==") return equals(left, right);
+        if (operator === "!=") return !equals(left, right);
+
+        let [a, b] = (isNumeric(left) && isNumeric(right)) ? [Number(left), Number(right)] : [toText(left), toText(right)];
+        switch (operator) {
+            case "<": return a < b;
+            case "<=": return a <= b;
+            case ">": return a > b;
+            default: return a >= b;
+        }
+    };
+
+    let primary = (): unknown => {
+        let token: string | undefined = next();
+        if (token === undefined) throw new Error("Incomplete expression in template: " + expression);
+
+        if (token === "(") {
+            let value: unknown = or();
+            if (next() !== ")") throw new Error("Missing ) in template expression: " + expression);
+            return value;
+        }
+        if (token.startsWith('"') || token.startsWith("'")) return token.substring(1, token.length - 1).replace(/\\(.)/g, "$1");
+        if (token === "true") return true;
+        if (token === "false") return false;
+        if (token === "null") return null;
+        if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token);
+        if (/^[@\w][\w.-]*$/.test(token)) return lookup(token, context);
+
+        throw new Error("Unexpected '" + token + "' in template expression: " + expression);
+    };
+
+    let value: unknown = or();
+    if (index < tokens.length) throw new Error("Unexpected '" + tokens[index] + "' in template expression: " + expression);
+    return value;
+}
+
+function lookup(path: string, context: TemplateContext): unknown {
+    // "this.text" or "@index", the names may contain "-" (like the names of templates)
+    if (Object.prototype.hasOwnProperty.call(context, path)) return context[path];
+
+    return path.split(".").reduce((value: unknown, key: string) =>
+        (value === undefined || value === null) ? undefined : (<{ [key: string]: unknown }>value)[key], context);
+}
+
+function equals(left: unknown, right: unknown): boolean {
+    if (isNumeric(left) && isNumeric(right)) return Number(left) === Number(right);
+    return toText(left) === toText(right);
+}
+
+function isNumeric(value: unknown): boolean {
+    return typeof value === "number" || (typeof value === "string" && /^-?\d+(\.\d+)?$/.test(value));
+}
@@ -0,0 +1,116 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+
+/**
+ * How durations are printed: as decimal hours ("2.75"), as hours and minutes ("2:45") or as minutes ("165")
+ */
+export type DurationFormat = "decimal" | "hh:mm" | "minutes";
+
+const MINUTES_PER_DAY: number = 24 * 60;
+
+// 9:30, 09:30, 21.30, 9:30 PM, 9:30pm, 9pm (not within numbers, dates or durations like 12:30:00)
+const TIME_EXPRESSION: RegExp = /(?:^|[^\d.:])(\d{1,2})(?:[:.](\d{2})(?![\d.:]))?(?:\s?([aApP][mM]))?(?![\d.:])/g;
+
+// 2:45 (hours and minutes) or 2.75, 2,75, -3 (decimal numbers)
+const NUMBER_EXPRESSION: RegExp = /(?:^|[^\d.,:])(-?)(?:(\d+):(\d{2})(?![\d:])|(\d+(?:[.,]\d+)?))(?![\d:])/g;
+
+/**
+ * Finds all times of day (e.g. "9:30", "21.30" or "9:30 PM") in the given text. A plain number without minutes 
+ * is only accepted with "am" or "pm". 
+ *
+ * @param text the text with the times, e.g. "22:30-01:15 |  | #clientA | deployment"
+ * @returns the times as minutes since midnight, in the order they appear in the text
+ */
+export function findTimes(text: string): number[] {
+    let times: number[] = [];
+    let match: RegExpExecArray | null;
+
+    TIME_EXPRESSION.lastIndex = 0;
+    while ((match = TIME_EXPRESSION.exec(text)) !== null) {
+        let hours: number = parseInt(match[1]);
+        let minutes: number = (match[2] === undefined) ? 0 : parseInt(match[2]);
+        let meridiem: string | undefined = (match[3] === undefined) ? undefined : match[3].toLowerCase();
+
+        if (match[2] === undefined && meridiem === undefined) continue;
+        if (minutes > 59) continue;
+        if (meridiem !== undefined) {
+            if (hours < 1 || hours > 12) continue;
+            hours = (hours % 12) + ((meridiem === "pm") ? 12 : 0);
+        } else if (hours > 23) continue;
+
+        times.push(hours * 60 + minutes);
+    }
+    return times;
+}
+
+/**
+ * Computes the minutes between two times of day. If the end is before the start, the duration 
+ * crosses midnight (e.g. 22:30 to 01:15 are 165 minutes). 
+ *
+ * @param start minutes since midnight
+ * @param end minutes since midnight
+ */
+export function computeDuration(start: number, end: number): number {
+    return (end >= start) ? end - start : end + MINUTES_PER_DAY - start;
+}
+
+/**
+ * Finds all numbers in the given text, values written as hours and minutes ("2:45") are converted into decimal hours.
+ *
+ * @param text the text with the numbers
+ * @returns the numbers, and whether any of them has been written as hours and minutes
+ */
+export function findNumbers(text: string): { numbers: number[], hasTimes: boolean } {
+    let result = { numbers: [] as number[], hasTimes: false };
+    let match: RegExpExecArray | null;
+
+    NUMBER_EXPRESSION.lastIndex = 0;
+    while ((match = NUMBER_EXPRESSION.exec(text)) !== null) {
+        let sign: number = (match[1] === "-") ? -1 : 1;
+        if (match[2] !== undefined) {
+            result.numbers.push(sign * (parseInt(match[2]) + parseInt(match[3]) / 60));
+            result.hasTimes = true;
+        } else {
+            result.numbers.push(sign * parseFloat(match[4].replace(",", ".")));
+        }
+    }
+    return result;
+}
+
+/**
+ * Formats the given duration
+ *
+ * @param minutes the duration in minutes
+ * @param format decimal hours (rounded to two digits), hours and minutes or minutes
+ */
+export function formatDuration(minutes: number, format: DurationFormat): string {
+    let sign: string = (minutes < 0) ? "-" : "";
+    minutes = Math.round(Math.abs(minutes));
+
+    switch (format) {
+        case "hh:mm":
+            return sign + Math.floor(minutes / 60) + ":" + ("0" + (minutes % 60)).slice(-2);
+        case "minutes":
+            return sign + minutes;
+        default:
+            return sign + parseFloat((minutes / 60).toFixed(2));
+    }
+}
@@ -0,0 +1,159 @@
+// Copyright (C) 2018 Patrick Maué
+//
+// This file is part of vscode-journal.
+//
+// vscode-journal is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// vscode-journal is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+//
+// You should have received a copy of the GNU General Public License
+// along with vscode-journal.  If not, see <http://www.gnu.org/licenses/>.
+//
+
+'use strict';
+
+import * as moment from 'moment';
+import { DateRange } from './dates';
+import { DurationFormat, findTimes, computeDuration, formatDuration } from './time';
+
+/**
+ * A time tracking line of a journal page, as created by the snippet "track", e.g. "09:00-10:30 |  | #clientA | standup"
+ */
+export interface TrackedTime {
+    /** minutes since midnight */
+    start: number;
+    /** minutes since midnight (before the start if the time crosses midnight) */
+    end: number;
+    /** the duration in minutes */
+    minutes: number;
+    /** the tags without the leading "#" */
+    tags: string[];
+    description: string;
+    /** the date of the journal page */
+    date?: Date;
+    scope?: string;
+    /** path of the journal page */
+    path?: string;
+    /** line within the journal page (starting with 0) */
+    line?: number;
+}
+
+// start-end | duration | tags | description, optionally as list item
+const TRACK_EXPRESSION: RegExp = /^\s*(?:[-*+]\s+)?([^|]+?)\s*\|([^|]*)\|([^|]*)\|(.*)$/;
+
+const UNTAGGED: string = "(untagged)";
+
+
+/**
+ * Parses a time tracking line. The duration column is ignored (it is computed from start and end). 
+ *
+ * @param text the line of the journal page
+ * @returns the tracked time, or undefined if the line is no time tracking line
+ */
+export function parseTrackLine(text: string): TrackedTime | undefined {
+    let match: RegExpMatchArray | null = text.match(TRACK_EXPRESSION);
+    if (match === null) return undefined;
+
+    let times: number[] = findTimes(match[1]);
+    if (times.length !== 2) return undefined;
+
+    return {
+        start: times[0],
+        end: times[1],
+        minutes: computeDuration(times[0], times[1]),
+        tags: match[3].split(/[\s,]+/).filter(tag => tag.length > 0).map(tag => tag.replace(/^#/, "")),
+        description: match[4].trim()
+    };
+}
+
+/**
+ * Builds a markdown document with the tracked times summed up per day, tag and scope, followed by all entries. 
+ * Times with multiple tags are counted for each tag. 
+ *
+ * @param times the tracked times within the range
+ * @param range the range of the report
+ * @param format the format of the hours
+ */
+export function buildTimesheetReport(times: TrackedTime[], range: DateRange, format: DurationFormat): string {
+    let sorted: TrackedTime[] = sortTimes(times);
+    let total: number = sorted.reduce((sum, time) => sum + time.minutes, 0);
+
+    let lines: string[] = [];
+    lines.push("# Timesheet " + moment(range.from).format("YYYY-MM-DD") + " to " + moment(range.to).format("YYYY-MM-DD"));
+    lines.push("");
+    if (range.scope !== undefined) lines.push("Scope: " + range.scope, "");
+    lines.push("Total: " + formatDuration(total, format));
+
+    let table = (title: string, column: string, sums: Map<string, number>) => {
+        lines.push("", "## " + title, "", "| " + column + " | Hours |", "| --- | ---: |");
+        sums.forEach((minutes, key) => lines.push("| " + escapeCell(key) + " | " + formatDuration(minutes, format) + " |"));
+    };
+
+    table("Per day", "Day", sumBy(sorted, time => [moment(time.date).format("ddd, LL")]));
+    table("Per tag", "Tag", sumBy(sorted, time => (time.tags.length > 0) ? time.tags.map(tag => "#" + tag) : [UNTAGGED]));
+    table("Per scope", "Scope", sumBy(sorted, time => [time.scope || ""]));
+
+    lines.push("", "## Entries", "", "| Day | Time | Hours | Scope | Tags | Description |", "| --- | --- | ---: | --- | --- | --- |");
+    sorted.forEach(time => lines.push("| " + [
+        moment(time.date).format("YYYY-MM-DD"),
+        formatTime(time.start) + "-" + formatTime(time.end),
+        formatDuration(time.minutes, format),
+        time.scope || "",
+        time.tags.map(tag => "#" + tag).join(" "),
+        time.description
+    ].map(escapeCell).join(" | ") + " |"));
+
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Builds a CSV file (comma separated, with header) with one row per tracked time. The hours are written as 
+ * decimal numbers. 
+ *
+ * @param times the tracked times
+ */
+export function buildTimesheetCsv(times: TrackedTime[]): string {
+    let rows: string[][] = [["date", "start", "end", "hours", "scope", "tags", "description"]];
+    sortTimes(times).forEach(time => rows.push([
+        moment(time.date).format("YYYY-MM-DD"),
+        formatTime(time.start),
+        formatTime(time.end),
+        formatDuration(time.minutes, "decimal"),
+        time.scope || "",
+        time.tags.join(" "),
+        time.description
+    ]));
+
+    return rows.map(row => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+}
+
+
+function sortTimes(times: TrackedTime[]): TrackedTime[] {
+    return times.slice().sort((a, b) => (moment(a.date).diff(moment(b.date))) || (a.start - b.start));
+}
+
+function sumBy(times: TrackedTime[], keys: (time: TrackedTime) => string[]): Map<string, number> {
+    let sums: Map<string, number> = new Map();
+    times.forEach(time => keys(time).forEach(key => sums.set(key, (sums.get(key) || 0) + time.minutes)));
+    return sums;
+}
+
+function formatTime(minutes: number): string {
+    return ("0" + Math.floor(minutes / 60)).slice(-2) + ":" + ("0" + (minutes % 60)).slice(-2);
+}
+
+function escapeCell(value: string): string {
+    return value.replace(/\|/g, "\\|");
+}
+
+function escapeCsv(value: string): string {
+    // spreadsheets run cells starting with these characters as formulas
+    if (value.match(/^[=+\-@\t\r]/)) value = "'" + value;
+    return value.match(/[",\r\n]/) ? '"' + value.replace(/"/g, '""') + '"' : value;
+}
@@ -24,6 +24,7 @@ import * as Q from 'q';
 import * as Path from 'path';
 import * as fs from 'fs';
 import * as moment from 'moment';
+import { ENGLISH_DATE_VOCABULARY } from './dates';
 
 /**
  * Utility Methods for the vscode-journal extension
@@ -51,17 +52,14 @@ export function checkIfFileIsAccessible(path: string): Q.Promise<void> {
 
 /**
  * Return day of week for given string. 
+ * 
+ * @param day the name of the weekday
+ * @param weekdays the names of the weekdays (monday to sunday) from the locale pack, defaults to english
  */
-export function getDayOfWeekForString(day: string): number {
+export function getDayOfWeekForString(day: string, weekdays: string[][] = ENGLISH_DATE_VOCABULARY.weekdays): number {
     day = day.toLowerCase();
-    if (day.match(/monday|mon|montag/)) { return 1; }
-    if (day.match(/tuesday|tue|dienstag/)) { return 2; }
-    if (day.match(/wednesday|wed|mittwoch/)) { return 3; }
-    if (day.match(/thursday|thu|donnerstag/)) { return 4; }
-    if (day.match(/friday|fri|freitag/)) { return 5; }
-    if (day.match(/saturday|sat|samstag/)) { return 6; }
-    if (day.match(/sunday|sun|sonntag/)) { return 7; }
-    return -1;
+    let index: number = weekdays.findIndex(names => names.indexOf(day) >= 0);
+    return (index < 0) ? -1 : index + 1;
 }
 
 
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { parseRelativeDate } from '../src/util/dates';
+import { GERMAN } from '../src/ext/locales';
+
+suite("Relative Dates", () => {
+
+    // Monday, 19th of October 2026
+    const today: Date = new Date(2026, 9, 19);
+
+    test("english shifts", () => {
+        assert.equal(parseRelativeDate("in 3 days", today)!.offset, 3);
+        assert.equal(parseRelativeDate("2 weeks ago", today)!.offset, -14);
+        assert.equal(parseRelativeDate("2 days before friday", today)!.offset, 2);
+    });
+
+    // months without year refer to their next occurrence
+    test("passed dates in months without year are taken from next year", () => {
+        assert.equal(parseRelativeDate("first monday of november", today)!.offset, 14);
+        assert.equal(parseRelativeDate("first monday of october", today)!.offset, 350);
+        assert.equal(parseRelativeDate("last monday of october", today)!.offset, 7);
+        assert.equal(parseRelativeDate("start of october", today)!.offset, 347);
+        assert.equal(parseRelativeDate("first monday of october 2026", today)!.offset, -14);
+    });
+
+    // "vor" is both the prefix of "vor 3 Tagen" and "before" in "2 Tage vor Freitag"
+    test("german 'vor' as ago prefix and before", () => {
+        assert.equal(parseRelativeDate("vor 3 Tagen", today, GERMAN)!.offset, -3);
+        assert.equal(parseRelativeDate("vor einer Woche", today, GERMAN)!.offset, -7);
+        assert.equal(parseRelativeDate("2 Tage vor Freitag", today, GERMAN)!.offset, 2);
+        assert.equal(parseRelativeDate("3 Tage vor vor 2 Wochen", today, GERMAN)!.offset, -17);
+        assert.equal(parseRelativeDate("vor Freitag", today, GERMAN), undefined);
+    });
+
+});
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { validateSettings, migrateSettings } from '../src/util/settings';
+
+suite("Settings", () => {
+
+    test("known variables in templates", () => {
+        let settings = {
+            templates: [
+                { name: "memo", template: "- ${localTime} ${input} ${d:LL} ${yesterday:dddd} ${env:HOME} ${config:journal.ext} ${mnt}" },
+                { name: "track", template: "${start}-${end} | ${duration} | ${tags} | ${input}" },
+                { name: "note-link", template: "- [${title}](${link}) ${prevEntryLink} ${nextEntryLink}" }
+            ]
+        };
+        assert.deepEqual(validateSettings(settings, ["mnt"]), []);
+    });
+
+    test("unknown variables in templates are warnings", () => {
+        let settings = {
+            templates: [{ name: "task", template: "- [ ] ${inptu} ${inptu} ${mnt}" }],
+            scopes: [{ name: "work", templates: [{ name: "memo", template: "${foo}" }] }]
+        };
+        let problems = validateSettings(settings);
+        assert.deepEqual(problems.map(problem => [problem.key, problem.severity]), [["journal.templates", "warning"], ["journal.scopes", "warning"]]);
+        assert.ok(problems[0].message.indexOf("${inptu}, ${mnt}") >= 0);
+    });
+
+    test("migration of deprecated settings", () => {
+        let changes = migrateSettings({
+            "pattern": { notes: { path: "${base}/notes", file: "${input}.md" }, entries: { path: "x", file: "y" } },
+            "patterns": { entries: { path: "${base}/${year}", file: "${day}.md" } },
+            "tpl-memo": "- ${input}",
+            "memo-after": "## Memos",
+            "scopes": [{ name: "work", patterns: { base: "/work" } }, { name: "home", base: "/home" }]
+        }, [{ name: "memo", template: "- Memo: ${input}" }, { name: "task", template: "- [ ] ${input}" }]);
+
+        assert.deepEqual(changes.patterns, { notes: { path: "${base}/notes", file: "${input}.md" }, entries: { path: "${base}/${year}", file: "${day}.md" } });
+        assert.deepEqual(changes.templates, [{ name: "memo", template: "- ${input}", after: "## Memos" }, { name: "task", template: "- [ ] ${input}" }]);
+        assert.deepEqual(changes.scopes, [{ name: "work", base: "/work", patterns: {} }, { name: "home", base: "/home" }]);
+        assert.ok("pattern" in changes && changes.pattern === undefined);
+        assert.ok("memo-after" in changes && changes["memo-after"] === undefined);
+        assert.deepEqual(migrateSettings({ scopes: {} }, []), { scopes: [] });
+    });
+
+});
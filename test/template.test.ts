@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { renderTemplate, findIncludes, evaluateCondition } from '../src/util/template';
+
+suite("Templates", () => {
+
+    test("values", () => {
+        assert.equal(renderTemplate("# {{weekday}}, {{task.text}}{{missing}}", { weekday: "Monday", task: { text: "call" } }), "# Monday, call");
+    });
+
+    test("if, else if and else", () => {
+        let template: string = "{{#if weekday == \"Saturday\" || weekday == \"Sunday\"}}weekend{{else if weekday == \"Friday\"}}almost{{else}}work{{/if}}";
+        assert.equal(renderTemplate(template, { weekday: "Sunday" }), "weekend");
+        assert.equal(renderTemplate(template, { weekday: "Friday" }), "almost");
+        assert.equal(renderTemplate(template, { weekday: "Monday" }), "work");
+    });
+
+    test("each with this, @index and else", () => {
+        let template: string = "{{#each tasks}}{{@index}}/{{@number}} {{this.text}} {{text}};{{else}}nothing to do{{/each}}";
+        assert.equal(renderTemplate(template, { tasks: [{ text: "a" }, { text: "b" }] }), "0/1 a a;1/2 b b;");
+        assert.equal(renderTemplate(template, { tasks: [] }), "nothing to do");
+        assert.equal(renderTemplate("{{#each tags}}#{{this}} {{/each}}", { tags: ["x", "y"] }), "#x #y ");
+    });
+
+    test("include", () => {
+        let includes: Map<string, string> = new Map([["greeting", "Hello {{name}}"], ["loop", "{{> loop}}"]]);
+        assert.equal(renderTemplate("{{> greeting}}!", { name: "Anna" }, includes), "Hello Anna!");
+        assert.deepEqual(findIncludes("{{> greeting}} {{> footer.md}} {{> greeting}}"), ["greeting", "footer.md"]);
+        assert.throws(() => renderTemplate("{{> unknown}}", {}, includes));
+        assert.throws(() => renderTemplate("{{> loop}}", {}, includes));
+    });
+
+    test("lines with only a block are removed", () => {
+        let template: string = "# Tasks\n{{#each tasks}}\n- [ ] {{text}}\n{{/each}}\n  {{#if done}}  \nDone\n{{/if}}\nEnd";
+        assert.equal(renderTemplate(template, { tasks: [{ text: "a" }, { text: "b" }], done: false }), "# Tasks\n- [ ] a\n- [ ] b\nEnd");
+        assert.equal(renderTemplate("a {{#if done}}b{{/if}} c", { done: true }), "a b c");
+    });
+
+    test("conditions", () => {
+        assert.equal(evaluateCondition("count >= 2 and not (name == 'x')", { count: "3", name: "y" }), true);
+        assert.equal(evaluateCondition("!tasks || @index < 1", { tasks: [], "@index": 0 }), true);
+        assert.equal(evaluateCondition("tasks", { tasks: [] }), false);
+        assert.throws(() => evaluateCondition("count >", { count: 1 }));
+        assert.throws(() => renderTemplate("{{#if a}}open", { a: true }));
+    });
+
+});